@@ -1,48 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-// Use service role for admin checks (bypasses RLS)
-// Use service role for admin checks (bypasses RLS)
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!serviceRoleKey) {
-    console.error('Missing SUPABASE_SERVICE_ROLE_KEY in environment variables');
-}
-
-const supabaseAdmin = serviceRoleKey
-    ? createClient(supabaseUrl, serviceRoleKey)
-    : null;
-
-export async function GET(request: NextRequest) {
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { withAdmin, withAuth } from '@/lib/auth'
+import { ADMIN_ROLES, getRolePermissions, isAdminRole } from '@/lib/admin-roles'
+
+// GET - Whether the signed-in user is an admin, with their role and what it
+// allows
+export const GET = withAuth(async (request, { user }) => {
     try {
-        // Get the authorization header
-        const authHeader = request.headers.get('authorization')
-
-        if (!authHeader?.startsWith('Bearer ')) {
-            return NextResponse.json(
-                { isAdmin: false, error: 'No valid authorization token' },
-                { status: 401 }
-            )
-        }
-
-        if (!supabaseAdmin) {
-            console.error('Supabase Admin client not initialized');
-            return NextResponse.json({ isAdmin: false, error: 'Server configuration error' }, { status: 500 });
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-
-        // Verify the JWT and get user info
-        const { data: { user }, error: userError } = await supabaseAdmin!.auth.getUser(token)
-
-        if (userError || !user) {
-            return NextResponse.json(
-                { isAdmin: false, error: 'Invalid or expired token' },
-                { status: 401 }
-            )
-        }
-
         const userEmail = user.email
 
         if (!userEmail) {
@@ -53,13 +17,13 @@ export async function GET(request: NextRequest) {
         }
 
         // Check if user email exists in admin_users table
-        const { data: adminUser, error: adminError } = await supabaseAdmin!
+        const { data: adminUser, error: adminError } = await supabaseAdmin
             .from('admin_users')
-            .select('id, email, created_at')
+            .select('id, email, role, created_at')
             .eq('email', userEmail.toLowerCase())
             .single()
 
-        if (adminError || !adminUser) {
+        if (adminError || !adminUser || !isAdminRole(adminUser.role)) {
             console.log(`Admin check failed for ${userEmail}: Not in admin_users table`)
             return NextResponse.json({
                 isAdmin: false,
@@ -73,6 +37,8 @@ export async function GET(request: NextRequest) {
             isAdmin: true,
             email: userEmail,
             userId: user.id,
+            role: adminUser.role,
+            permissions: getRolePermissions(adminUser.role),
             adminSince: adminUser.created_at
         })
 
@@ -83,66 +49,36 @@ export async function GET(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+}, { allowBlocked: true })
 
-// POST: Add new admin (only existing admins can do this)
-export async function POST(request: NextRequest) {
+// POST: Add new admin with a role (default 'admin'); owners only
+export const POST = withAdmin('admins.manage', async (request, admin) => {
     try {
-        const authHeader = request.headers.get('authorization')
-
-        if (!authHeader?.startsWith('Bearer ')) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            )
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-
-        if (!supabaseAdmin) {
-            return NextResponse.json({ success: false, error: 'Server configuration error' }, { status: 500 });
-        }
-
-        const { data: { user } } = await supabaseAdmin!.auth.getUser(token)
-
-        if (!user?.email) {
-            return NextResponse.json(
-                { success: false, error: 'Invalid user' },
-                { status: 401 }
-            )
-        }
-
-        // Check if current user is admin
-        const { data: currentAdmin } = await supabaseAdmin!
-            .from('admin_users')
-            .select('email')
-            .eq('email', user.email.toLowerCase())
-            .single()
+        // Get email and role to add from request body
+        const body = await request.json()
+        const { email, role = 'admin' } = body
 
-        if (!currentAdmin) {
+        if (!email || typeof email !== 'string') {
             return NextResponse.json(
-                { success: false, error: 'Only admins can add new admins' },
-                { status: 403 }
+                { success: false, error: 'Valid email is required' },
+                { status: 400 }
             )
         }
 
-        // Get email to add from request body
-        const body = await request.json()
-        const { email } = body
-
-        if (!email || typeof email !== 'string') {
+        if (!isAdminRole(role)) {
             return NextResponse.json(
-                { success: false, error: 'Valid email is required' },
+                { success: false, error: `role must be one of: ${ADMIN_ROLES.join(', ')}` },
                 { status: 400 }
             )
         }
 
         // Insert new admin
-        const { data: newAdmin, error: insertError } = await supabaseAdmin!
+        const { data: newAdmin, error: insertError } = await supabaseAdmin
             .from('admin_users')
             .insert({
                 email: email.toLowerCase().trim(),
-                created_by: user.email
+                role,
+                created_by: admin.email
             })
             .select()
             .single()
@@ -169,49 +105,71 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+})
 
-// DELETE: Remove admin (only existing admins can do this, cannot remove self)
-export async function DELETE(request: NextRequest) {
+// PATCH: Change the role of an admin ({ email, role }); owners only, and not
+// their own role, so there is always an owner left
+export const PATCH = withAdmin('admins.manage', async (request, admin) => {
     try {
-        const authHeader = request.headers.get('authorization')
+        const body = await request.json()
+        const { email, role } = body
 
-        if (!authHeader?.startsWith('Bearer ')) {
+        if (!email || typeof email !== 'string') {
             return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
+                { success: false, error: 'Valid email is required' },
+                { status: 400 }
             )
         }
 
-        const token = authHeader.replace('Bearer ', '')
-
-        if (!supabaseAdmin) {
-            return NextResponse.json({ success: false, error: 'Server configuration error' }, { status: 500 });
+        if (!isAdminRole(role)) {
+            return NextResponse.json(
+                { success: false, error: `role must be one of: ${ADMIN_ROLES.join(', ')}` },
+                { status: 400 }
+            )
         }
 
-        const { data: { user } } = await supabaseAdmin!.auth.getUser(token)
-
-        if (!user?.email) {
+        if (email.toLowerCase() === admin.email.toLowerCase()) {
             return NextResponse.json(
-                { success: false, error: 'Invalid user' },
-                { status: 401 }
+                { success: false, error: 'You cannot change your own role' },
+                { status: 400 }
             )
         }
 
-        // Check if current user is admin
-        const { data: currentAdmin } = await supabaseAdmin!
+        const { data: updated, error: updateError } = await supabaseAdmin
             .from('admin_users')
-            .select('email')
-            .eq('email', user.email.toLowerCase())
-            .single()
+            .update({ role })
+            .eq('email', email.toLowerCase().trim())
+            .select()
+            .maybeSingle()
+
+        if (updateError) {
+            throw updateError
+        }
 
-        if (!currentAdmin) {
+        if (!updated) {
             return NextResponse.json(
-                { success: false, error: 'Only admins can remove admins' },
-                { status: 403 }
+                { success: false, error: 'Admin not found' },
+                { status: 404 }
             )
         }
 
+        return NextResponse.json({
+            success: true,
+            admin: updated
+        })
+
+    } catch (error) {
+        console.error('Change admin role error:', error)
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+})
+
+// DELETE: Remove admin (owners only, cannot remove self)
+export const DELETE = withAdmin('admins.manage', async (request, admin) => {
+    try {
         // Get email to remove from URL
         const url = new URL(request.url)
         const emailToRemove = url.searchParams.get('email')
@@ -224,7 +182,7 @@ export async function DELETE(request: NextRequest) {
         }
 
         // Prevent self-removal
-        if (emailToRemove.toLowerCase() === user.email.toLowerCase()) {
+        if (emailToRemove.toLowerCase() === admin.email.toLowerCase()) {
             return NextResponse.json(
                 { success: false, error: 'You cannot remove yourself as admin' },
                 { status: 400 }
@@ -232,7 +190,7 @@ export async function DELETE(request: NextRequest) {
         }
 
         // Delete admin
-        const { error: deleteError } = await supabaseAdmin!
+        const { error: deleteError } = await supabaseAdmin
             .from('admin_users')
             .delete()
             .eq('email', emailToRemove.toLowerCase())
@@ -250,4 +208,4 @@ export async function DELETE(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+})
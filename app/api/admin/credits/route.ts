@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { CREDIT_SOURCES, CreditSource, grantPlayCredits, listCreditGrants, PlayCreditError } from '@/lib/play-credits'
+
+// GET - Credit grants of a user: ?user_id=
+export const GET = withAdmin('credits.read', async (request) => {
+    try {
+        const userId = new URL(request.url).searchParams.get('user_id')
+        if (!userId) {
+            return NextResponse.json({ error: 'user_id is required' }, { status: 400 })
+        }
+
+        const grants = await listCreditGrants(userId)
+        const now = Date.now()
+        const balance = grants
+            .filter(grant => new Date(grant.expires_at).getTime() > now)
+            .reduce((sum, grant) => sum + grant.remaining, 0)
+
+        return NextResponse.json({ balance, grants })
+
+    } catch (error) {
+        console.error('Get credit grants error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// POST - Grant bonus play credits to a user:
+// { user_id, amount, source?: 'admin' | 'promo', expires_at?, reason? }
+export const POST = withAdmin('credits.write', async (request, admin) => {
+    try {
+        const body = await request.json()
+        const { user_id, amount, source = 'admin', expires_at, reason } = body
+
+        if (!user_id) {
+            return NextResponse.json({ error: 'user_id is required' }, { status: 400 })
+        }
+
+        // Referral credits are only granted by the referral program
+        if (source === 'referral' || !CREDIT_SOURCES.includes(source)) {
+            return NextResponse.json({ error: "source must be 'admin' or 'promo'" }, { status: 400 })
+        }
+
+        let expiresAt: Date | undefined
+        if (expires_at) {
+            expiresAt = new Date(expires_at)
+            if (isNaN(expiresAt.getTime())) {
+                return NextResponse.json({ error: 'expires_at is not a valid date' }, { status: 400 })
+            }
+        }
+
+        const { data: { user: target } } = await supabaseAdmin.auth.admin.getUserById(user_id)
+        if (!target) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+
+        const grant = await grantPlayCredits({
+            userId: user_id,
+            amount: Number(amount),
+            source: source as CreditSource,
+            reason: typeof reason === 'string' ? reason.trim() : null,
+            grantedBy: admin.email,
+            expiresAt
+        })
+
+        return NextResponse.json({
+            success: true,
+            message: `${grant.amount} kredit bonus berhasil diberikan`,
+            grant
+        })
+
+    } catch (error) {
+        if (error instanceof PlayCreditError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+
+        console.error('Grant credits error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
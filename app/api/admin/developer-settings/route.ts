@@ -1,12 +1,6 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'Rendy@123';
-
-// Create admin client with service role for full access
-const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+import { withAdmin } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
 
 // Default developer settings
 const defaultSettings = {
@@ -44,14 +38,8 @@ export async function GET() {
 }
 
 // PUT - Admin only endpoint to update developer settings
-export async function PUT(request: Request) {
+export const PUT = withAdmin('settings.write', async (request) => {
     try {
-        // Verify admin password
-        const adminPassword = request.headers.get('x-admin-password');
-        if (adminPassword !== ADMIN_PASSWORD) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
         const body = await request.json();
         const { name, title, photo_url, photo_expanded_url, is_visible, social_links } = body;
 
@@ -81,4 +69,4 @@ export async function PUT(request: Request) {
             { status: 500 }
         );
     }
-}
+});
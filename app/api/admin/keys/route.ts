@@ -1,15 +1,13 @@
 import { NextResponse } from 'next/server';
 import { getApiKeys, generateApiKey, revokeApiKey } from '@/lib/api-keys';
+import { withAdmin } from '@/lib/auth';
 
-// In a real app, you should add authentication middleware here to ensure only admins can access this.
-// For this project, we assume the route is protected or local usage.
-
-export async function GET() {
+export const GET = withAdmin('keys.manage', async () => {
     const keys = getApiKeys();
     return NextResponse.json(keys);
-}
+});
 
-export async function POST(req: Request) {
+export const POST = withAdmin('keys.manage', async (req) => {
     try {
         const body = await req.json();
         const { name } = body;
@@ -20,12 +18,12 @@ export async function POST(req: Request) {
 
         const newKey = generateApiKey(name);
         return NextResponse.json(newKey);
-    } catch (error) {
+    } catch {
         return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
     }
-}
+});
 
-export async function DELETE(req: Request) {
+export const DELETE = withAdmin('keys.manage', async (req) => {
     const { searchParams } = new URL(req.url);
     const id = searchParams.get('id');
 
@@ -40,4 +38,4 @@ export async function DELETE(req: Request) {
     } else {
         return NextResponse.json({ error: 'Key not found' }, { status: 404 });
     }
-}
+});
@@ -1,28 +1,17 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const ADMIN_PASSWORD = 'Rendy@123'
+import { withAdmin } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
 
 export async function GET() {
-    const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    )
-
-    const { data, error } = await supabase.from('plans').select('*').order('price')
+    const { data, error } = await supabaseAdmin.from('plans').select('*').order('price')
 
     if (error) return NextResponse.json({ error: error.message }, { status: 500 })
 
     return NextResponse.json(data)
 }
 
-export async function PUT(req: Request) {
-    const password = req.headers.get('x-admin-password')
-
-    if (password !== ADMIN_PASSWORD) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
+// PUT - Update a plan (prices, limits, features)
+export const PUT = withAdmin('plans.write', async (req) => {
     const {
         id,
         name,
@@ -32,14 +21,14 @@ export async function PUT(req: Request) {
         duration_type,
         duration_value,
         is_popular,
-        skip_limit
+        skip_limit,
+        trial_days,
+        ai_generation_limit,
+        lyrics_enabled,
+        playlist_limit,
+        audio_quality
     } = await req.json()
 
-    const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    )
-
     const updateData: Record<string, unknown> = {}
 
     if (name !== undefined) updateData.name = name
@@ -50,8 +39,13 @@ export async function PUT(req: Request) {
     if (duration_value !== undefined) updateData.duration_value = duration_value
     if (is_popular !== undefined) updateData.is_popular = is_popular
     if (skip_limit !== undefined) updateData.skip_limit = skip_limit
+    if (trial_days !== undefined) updateData.trial_days = trial_days || null // 0 removes the trial
+    if (ai_generation_limit !== undefined) updateData.ai_generation_limit = ai_generation_limit
+    if (lyrics_enabled !== undefined) updateData.lyrics_enabled = lyrics_enabled
+    if (playlist_limit !== undefined) updateData.playlist_limit = playlist_limit
+    if (audio_quality !== undefined) updateData.audio_quality = audio_quality
 
-    const { data, error } = await supabase
+    const { data, error } = await supabaseAdmin
         .from('plans')
         .update(updateData)
         .eq('id', id)
@@ -61,4 +55,4 @@ export async function PUT(req: Request) {
     if (error) return NextResponse.json({ error: error.message }, { status: 500 })
 
     return NextResponse.json(data)
-}
+})
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { reconcileTransactions } from '@/lib/reconciliation'
+
+// GET - Recent reconciliation reports
+export const GET = withAdmin('payments.read', async (request) => {
+    try {
+        const limit = parseInt(new URL(request.url).searchParams.get('limit') || '20')
+
+        const { data: runs, error } = await supabaseAdmin
+            .from('reconciliation_runs')
+            .select('*')
+            .order('started_at', { ascending: false })
+            .limit(limit)
+
+        if (error) throw error
+
+        return NextResponse.json({ runs: runs || [] })
+
+    } catch (error) {
+        console.error('Get reconciliation runs error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// POST - Run a reconciliation now
+export const POST = withAdmin('payments.write', async (request, admin) => {
+    try {
+        const body = await request.json().catch(() => ({}))
+        const lookbackDays = body.lookback_days !== undefined ? Number(body.lookback_days) : undefined
+        const orphanPages = body.orphan_pages !== undefined ? Number(body.orphan_pages) : undefined
+
+        if ((lookbackDays !== undefined && (!Number.isInteger(lookbackDays) || lookbackDays < 1 || lookbackDays > 90)) ||
+            (orphanPages !== undefined && (!Number.isInteger(orphanPages) || orphanPages < 0 || orphanPages > 20))) {
+            return NextResponse.json({ error: 'lookback_days must be 1-90 and orphan_pages 0-20' }, { status: 400 })
+        }
+
+        const report = await reconcileTransactions({ lookbackDays, orphanPages, triggeredBy: admin.email })
+
+        return NextResponse.json({ success: true, report })
+
+    } catch (error) {
+        console.error('Reconciliation error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getReferralReport, REWARD_TYPES } from '@/lib/referrals'
+import { getPlan } from '@/lib/plans'
+
+// GET - Referral conversions report, optionally for a period: ?from=&to=
+// (ISO dates, by attribution time)
+export const GET = withAdmin('referrals.read', async (request) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const report = await getReferralReport({
+            from: searchParams.get('from'),
+            to: searchParams.get('to')
+        })
+
+        const { data: settings } = await supabaseAdmin
+            .from('referral_settings')
+            .select('*')
+            .eq('id', 'main')
+            .maybeSingle()
+
+        return NextResponse.json({ settings, ...report })
+
+    } catch (error) {
+        console.error('Get referral report error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// PUT - Update the referral reward: { is_active?, reward_type?, reward_value?,
+// reward_plan_id?, reward_valid_days?, attribution_window_days? }
+export const PUT = withAdmin('referrals.write', async (request) => {
+    try {
+        const body = await request.json()
+        const updates: Record<string, unknown> = {}
+
+        if (body.is_active !== undefined) updates.is_active = !!body.is_active
+
+        if (body.reward_type !== undefined) {
+            if (!REWARD_TYPES.includes(body.reward_type)) {
+                return NextResponse.json({ error: `reward_type must be one of: ${REWARD_TYPES.join(', ')}` }, { status: 400 })
+            }
+            updates.reward_type = body.reward_type
+        }
+
+        for (const field of ['reward_value', 'reward_valid_days', 'attribution_window_days']) {
+            if (body[field] === undefined) continue
+            const value = Number(body[field])
+            if (!Number.isInteger(value) || value <= 0) {
+                return NextResponse.json({ error: `${field} must be a positive whole number` }, { status: 400 })
+            }
+            updates[field] = value
+        }
+
+        if (body.reward_plan_id !== undefined) {
+            const plan = body.reward_plan_id ? await getPlan(body.reward_plan_id) : null
+            if (body.reward_plan_id && (!plan || !(Number(plan.price) > 0))) {
+                return NextResponse.json({ error: 'reward_plan_id must be a paid plan' }, { status: 400 })
+            }
+            updates.reward_plan_id = plan?.id || null
+        }
+
+        const { data: current } = await supabaseAdmin
+            .from('referral_settings')
+            .select('reward_type, reward_plan_id')
+            .eq('id', 'main')
+            .maybeSingle()
+
+        const rewardType = updates.reward_type ?? current?.reward_type
+        const rewardPlanId = updates.reward_plan_id !== undefined ? updates.reward_plan_id : current?.reward_plan_id
+        if (rewardType === 'premium_days' && !rewardPlanId) {
+            return NextResponse.json({ error: 'reward_plan_id is required for premium_days rewards' }, { status: 400 })
+        }
+
+        const { data, error } = await supabaseAdmin
+            .from('referral_settings')
+            .upsert({ id: 'main', ...updates, updated_at: new Date().toISOString() })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return NextResponse.json({ success: true, message: 'Pengaturan referral berhasil disimpan', settings: data })
+
+    } catch (error) {
+        console.error('Update referral settings error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { applyRefund, RefundError } from '@/lib/refunds'
+
+// GET - List refunds, optionally for one user or transaction
+export const GET = withAdmin('payments.read', async (request) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const userId = searchParams.get('user_id')
+        const transactionId = searchParams.get('transaction_id')
+        const limit = parseInt(searchParams.get('limit') || '50')
+
+        let query = supabaseAdmin
+            .from('refunds')
+            .select('*, transactions(amount, plan_id, payment_method, payment_reference, status)')
+            .order('created_at', { ascending: false })
+            .limit(limit)
+
+        if (userId) query = query.eq('user_id', userId)
+        if (transactionId) query = query.eq('transaction_id', transactionId)
+
+        const { data: refunds, error } = await query
+
+        if (error) throw error
+
+        return NextResponse.json({ refunds: refunds || [] })
+
+    } catch (error) {
+        console.error('Get refunds error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// POST - Record a refund issued at the gateway and revoke the entitlement
+export const POST = withAdmin('payments.write', async (request, admin) => {
+    try {
+        const body = await request.json()
+        const { transaction_id, amount, reason } = body
+
+        if (!transaction_id) {
+            return NextResponse.json({ error: 'transaction_id is required' }, { status: 400 })
+        }
+
+        if (!reason || typeof reason !== 'string') {
+            return NextResponse.json({ error: 'reason is required' }, { status: 400 })
+        }
+
+        const result = await applyRefund({
+            transactionId: transaction_id,
+            amount: amount !== undefined ? Number(amount) : undefined,
+            reason: reason.trim(),
+            source: 'admin',
+            createdBy: admin.email
+        })
+
+        return NextResponse.json({
+            success: true,
+            message: result.fullyRefunded ? 'Refund penuh berhasil dicatat' : 'Refund sebagian berhasil dicatat',
+            refund: result
+        })
+
+    } catch (error) {
+        if (error instanceof RefundError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+
+        console.error('Create refund error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
@@ -1,53 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-// Use service role for admin operations
-const supabaseAdmin = createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-)
-
-// Verify admin status
-async function verifyAdmin(request: NextRequest): Promise<{ isAdmin: boolean; error?: string }> {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader?.startsWith('Bearer ')) {
-        return { isAdmin: false, error: 'No authorization token' }
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user } } = await supabaseAdmin.auth.getUser(token)
-
-    if (!user?.email) {
-        return { isAdmin: false, error: 'Invalid token' }
-    }
-
-    const { data: admin } = await supabaseAdmin
-        .from('admin_users')
-        .select('email')
-        .eq('email', user.email.toLowerCase())
-        .single()
-
-    if (!admin) {
-        return { isAdmin: false, error: 'Not an admin' }
-    }
-
-    return { isAdmin: true }
-}
+import { NextResponse } from 'next/server'
+import { forbiddenResponse, withAdmin } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { hasPermission } from '@/lib/admin-roles'
+import { getPlan } from '@/lib/plans'
+import { changePlan } from '@/lib/subscriptions'
 
 // GET - List all users with their subscription info
-export async function GET(request: NextRequest) {
+export const GET = withAdmin('users.read', async (request) => {
     try {
-        const adminCheck = await verifyAdmin(request)
-        if (!adminCheck.isAdmin) {
-            return NextResponse.json({ error: adminCheck.error }, { status: 403 })
-        }
-
         // Get search query
         const { searchParams } = new URL(request.url)
         const search = searchParams.get('search') || ''
         const page = parseInt(searchParams.get('page') || '1')
         const limit = parseInt(searchParams.get('limit') || '50')
-        const offset = (page - 1) * limit
 
         // Get all users from auth.users via admin API
         const { data: authUsers, error: authError } = await supabaseAdmin.auth.admin.listUsers({
@@ -132,16 +97,12 @@ export async function GET(request: NextRequest) {
         console.error('Get users error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
 
-// PATCH - Update user (block/unblock, change plan)
-export async function PATCH(request: NextRequest) {
+// PATCH - Update user (block/unblock, change plan). Changing the plan also
+// needs users.manage.
+export const PATCH = withAdmin('users.block', async (request, admin) => {
     try {
-        const adminCheck = await verifyAdmin(request)
-        if (!adminCheck.isAdmin) {
-            return NextResponse.json({ error: adminCheck.error }, { status: 403 })
-        }
-
         const body = await request.json()
         const { user_id, action, plan_id, block_duration, block_reason } = body
 
@@ -209,31 +170,29 @@ export async function PATCH(request: NextRequest) {
             }
 
             case 'change_plan': {
+                if (!hasPermission(admin.role, 'users.manage')) {
+                    return forbiddenResponse(`Role ${admin.role} lacks permission users.manage`)
+                }
+
                 if (!plan_id) {
                     return NextResponse.json({ error: 'plan_id is required' }, { status: 400 })
                 }
 
                 // Verify plan exists
-                const { data: plan } = await supabaseAdmin
-                    .from('plans')
-                    .select('id, name')
-                    .eq('id', plan_id)
-                    .single()
+                const plan = await getPlan(plan_id)
 
                 if (!plan) {
                     return NextResponse.json({ error: 'Plan not found' }, { status: 404 })
                 }
 
-                const { error } = await supabaseAdmin
-                    .from('user_subscriptions')
-                    .update({ plan_id })
-                    .eq('user_id', user_id)
-
-                if (error) throw error
+                const period = await changePlan(user_id, plan, {
+                    expiresAt: body.expires_at
+                })
 
                 return NextResponse.json({
                     success: true,
-                    message: `Plan berhasil diubah ke ${plan.name}`
+                    message: `Plan berhasil diubah ke ${plan.name}`,
+                    expires_at: period.expiresAt
                 })
             }
 
@@ -245,16 +204,11 @@ export async function PATCH(request: NextRequest) {
         console.error('Update user error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
 
 // DELETE - Delete user
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAdmin('users.manage', async (request) => {
     try {
-        const adminCheck = await verifyAdmin(request)
-        if (!adminCheck.isAdmin) {
-            return NextResponse.json({ error: adminCheck.error }, { status: 403 })
-        }
-
         const { searchParams } = new URL(request.url)
         const userId = searchParams.get('user_id')
 
@@ -322,6 +276,36 @@ export async function DELETE(request: NextRequest) {
             console.error('Error deleting daily skips (non-critical):', skipError)
         }
 
+        // Delete user's usage ledger
+        try {
+            await supabaseAdmin
+                .from('usage_events')
+                .delete()
+                .eq('user_id', userId)
+        } catch (usageError) {
+            console.error('Error deleting usage events (non-critical):', usageError)
+        }
+
+        // Delete user's bonus play credits
+        try {
+            await supabaseAdmin
+                .from('play_credit_grants')
+                .delete()
+                .eq('user_id', userId)
+        } catch (creditError) {
+            console.error('Error deleting play credits (non-critical):', creditError)
+        }
+
+        // Delete user's referral code (referrals stay for the report)
+        try {
+            await supabaseAdmin
+                .from('referral_codes')
+                .delete()
+                .eq('user_id', userId)
+        } catch (referralError) {
+            console.error('Error deleting referral code (non-critical):', referralError)
+        }
+
         // Delete user's profile
         try {
             await supabaseAdmin
@@ -381,10 +365,10 @@ export async function DELETE(request: NextRequest) {
 
         return NextResponse.json({ success: true, message: 'User berhasil dihapus' })
 
-    } catch (error: any) {
+    } catch (error) {
         console.error('Delete user error:', error)
         return NextResponse.json({
-            error: error?.message || 'Internal server error'
+            error: error instanceof Error ? error.message : 'Internal server error'
         }, { status: 500 })
     }
-}
+})
@@ -0,0 +1,233 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { normalizeVoucherCode } from '@/lib/vouchers'
+
+// Validate and pick the editable voucher fields from a request body
+function parseVoucherFields(body: Record<string, unknown>, partial: boolean): { data?: Record<string, unknown>; error?: string } {
+    const data: Record<string, unknown> = {}
+
+    if (body.code !== undefined) {
+        if (typeof body.code !== 'string' || !/^[A-Z0-9_-]{3,32}$/i.test(body.code.trim())) {
+            return { error: 'code must be 3-32 letters, digits, - or _' }
+        }
+        data.code = normalizeVoucherCode(body.code)
+    } else if (!partial) {
+        return { error: 'code is required' }
+    }
+
+    if (body.discount_type !== undefined) {
+        if (typeof body.discount_type !== 'string' || !['percentage', 'flat'].includes(body.discount_type)) {
+            return { error: 'discount_type must be percentage or flat' }
+        }
+        data.discount_type = body.discount_type
+    } else if (!partial) {
+        return { error: 'discount_type is required' }
+    }
+
+    if (body.discount_value !== undefined) {
+        const value = Number(body.discount_value)
+        if (!Number.isInteger(value) || value <= 0) {
+            return { error: 'discount_value must be a positive integer' }
+        }
+        if ((body.discount_type ?? 'flat') === 'percentage' && value > 100) {
+            return { error: 'percentage discount cannot exceed 100' }
+        }
+        data.discount_value = value
+    } else if (!partial) {
+        return { error: 'discount_value is required' }
+    }
+
+    for (const field of ['max_discount', 'max_redemptions', 'per_user_limit']) {
+        if (body[field] === undefined) continue
+        if (body[field] === null && field !== 'per_user_limit') {
+            data[field] = null
+            continue
+        }
+        const value = Number(body[field])
+        if (!Number.isInteger(value) || value < 1) {
+            return { error: `${field} must be a positive integer` }
+        }
+        data[field] = value
+    }
+
+    if (body.plan_ids !== undefined) {
+        if (body.plan_ids !== null && (!Array.isArray(body.plan_ids) || body.plan_ids.some((id: unknown) => typeof id !== 'string'))) {
+            return { error: 'plan_ids must be an array of plan ids or null' }
+        }
+        data.plan_ids = Array.isArray(body.plan_ids) && body.plan_ids.length ? body.plan_ids : null
+    }
+
+    for (const field of ['starts_at', 'ends_at']) {
+        const value = body[field] as string | number | null | undefined
+        if (value === undefined) continue
+        if (value !== null && isNaN(new Date(value).getTime())) {
+            return { error: `${field} must be a valid date` }
+        }
+        data[field] = value ? new Date(value).toISOString() : null
+    }
+
+    if (data.starts_at && data.ends_at && (data.starts_at as string) >= (data.ends_at as string)) {
+        return { error: 'ends_at must be after starts_at' }
+    }
+
+    if (body.description !== undefined) data.description = typeof body.description === 'string' ? body.description.trim() || null : null
+    if (body.is_active !== undefined) data.is_active = !!body.is_active
+
+    return { data }
+}
+
+// GET - List vouchers with their redemption counts
+export const GET = withAdmin('vouchers.read', async () => {
+    try {
+        const { data: vouchers, error } = await supabaseAdmin
+            .from('vouchers')
+            .select('*')
+            .order('created_at', { ascending: false })
+
+        if (error) throw error
+
+        const voucherIds = (vouchers || []).map(v => v.id)
+        const { data: redemptions } = voucherIds.length > 0
+            ? await supabaseAdmin
+                .from('voucher_redemptions')
+                .select('voucher_id, status, discount_amount')
+                .in('voucher_id', voucherIds)
+            : { data: [] }
+
+        const stats = new Map<string, { redeemed: number; reserved: number; total_discount: number }>()
+        redemptions?.forEach(r => {
+            const entry = stats.get(r.voucher_id) || { redeemed: 0, reserved: 0, total_discount: 0 }
+            if (r.status === 'redeemed') {
+                entry.redeemed++
+                entry.total_discount += r.discount_amount
+            } else if (r.status === 'reserved') {
+                entry.reserved++
+            }
+            stats.set(r.voucher_id, entry)
+        })
+
+        return NextResponse.json({
+            vouchers: (vouchers || []).map(v => ({
+                ...v,
+                ...(stats.get(v.id) || { redeemed: 0, reserved: 0, total_discount: 0 })
+            }))
+        })
+
+    } catch (error) {
+        console.error('Get vouchers error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// POST - Create voucher
+export const POST = withAdmin('vouchers.write', async (request, admin) => {
+    try {
+        const { data, error: validationError } = parseVoucherFields(await request.json(), false)
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 })
+        }
+
+        const { data: voucher, error } = await supabaseAdmin
+            .from('vouchers')
+            .insert({ ...data, created_by: admin.email })
+            .select()
+            .single()
+
+        if (error) {
+            if (error.code === '23505') { // Unique violation
+                return NextResponse.json({ error: 'Voucher code already exists' }, { status: 409 })
+            }
+            if (error.code === '23514') { // Check violation
+                return NextResponse.json({ error: 'Invalid voucher values' }, { status: 400 })
+            }
+            throw error
+        }
+
+        return NextResponse.json({ success: true, voucher })
+
+    } catch (error) {
+        console.error('Create voucher error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// PATCH - Update voucher
+export const PATCH = withAdmin('vouchers.write', async (request) => {
+    try {
+        const body = await request.json()
+        if (!body.id) {
+            return NextResponse.json({ error: 'id is required' }, { status: 400 })
+        }
+
+        const { data, error: validationError } = parseVoucherFields(body, true)
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 })
+        }
+
+        const { data: voucher, error } = await supabaseAdmin
+            .from('vouchers')
+            .update({ ...data, updated_at: new Date().toISOString() })
+            .eq('id', body.id)
+            .select()
+            .single()
+
+        if (error) {
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'Voucher code already exists' }, { status: 409 })
+            }
+            if (error.code === '23514') {
+                return NextResponse.json({ error: 'Invalid voucher values' }, { status: 400 })
+            }
+            if (error.code === 'PGRST116') {
+                return NextResponse.json({ error: 'Voucher not found' }, { status: 404 })
+            }
+            throw error
+        }
+
+        return NextResponse.json({ success: true, voucher })
+
+    } catch (error) {
+        console.error('Update voucher error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// DELETE - Delete an unused voucher, or deactivate one that has been used
+export const DELETE = withAdmin('vouchers.write', async (request) => {
+    try {
+        const id = new URL(request.url).searchParams.get('id')
+        if (!id) {
+            return NextResponse.json({ error: 'id is required' }, { status: 400 })
+        }
+
+        const { count } = await supabaseAdmin
+            .from('voucher_redemptions')
+            .select('id', { count: 'exact', head: true })
+            .eq('voucher_id', id)
+
+        if (count && count > 0) {
+            const { error } = await supabaseAdmin
+                .from('vouchers')
+                .update({ is_active: false, updated_at: new Date().toISOString() })
+                .eq('id', id)
+
+            if (error) throw error
+
+            return NextResponse.json({ success: true, deactivated: true, message: 'Voucher sudah dipakai, jadi dinonaktifkan' })
+        }
+
+        const { error } = await supabaseAdmin
+            .from('vouchers')
+            .delete()
+            .eq('id', id)
+
+        if (error) throw error
+
+        return NextResponse.json({ success: true, deleted: true })
+
+    } catch (error) {
+        console.error('Delete voucher error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
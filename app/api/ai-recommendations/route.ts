@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { withOptionalAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
-
 interface HistoryItem {
     track_id: string
     track_name: string
@@ -13,6 +11,14 @@ interface HistoryItem {
     played_at: string
 }
 
+// A track as returned by /api/spotify; only the fields read here are typed,
+// the rest is passed through to the client as is
+interface SpotifyTrack {
+    id: string
+    album?: { images?: unknown[] }
+    [key: string]: unknown
+}
+
 // Spotify valid genre seeds
 const VALID_SPOTIFY_GENRES = [
     'pop', 'hip-hop', 'electronic', 'rock', 'r-n-b', 'jazz', 'classical',
@@ -172,7 +178,7 @@ Return ONLY 5 search queries, one per line. Each query should be short (2-5 word
 
         if (!result) return []
 
-        const response = await (result as any).response
+        const response = result.response
         const text = response.text?.().trim()
 
         if (!text) return []
@@ -216,28 +222,18 @@ function generateFallbackQueries(patterns: ReturnType<typeof analyzeListeningPat
     return queries.slice(0, 5)
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withOptionalAuth(async (request, { user }) => {
     try {
-        const authHeader = request.headers.get('authorization')
         const { searchParams } = new URL(request.url)
         const limit = parseInt(searchParams.get('limit') || '20')
 
-        // Guest users get generic recommendations
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return getGuestRecommendations(request, limit)
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-        const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-
-        const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
-
-        if (authError || !user) {
+        // Guests (no or an invalid token) get genre-based recommendations
+        if (!user) {
             return getGuestRecommendations(request, limit)
         }
 
         // Fetch comprehensive listening history
-        const { data: history, error: historyError } = await supabaseClient
+        const { data: history, error: historyError } = await supabaseAdmin
             .from('listening_history')
             .select('track_id, track_name, artist_name, genre, played_at')
             .eq('user_id', user.id)
@@ -264,7 +260,7 @@ export async function GET(request: NextRequest) {
         }
 
         // Collect tracks from all queries
-        const allTracks: any[] = []
+        const allTracks: SpotifyTrack[] = []
         const trackIds = new Set<string>()
 
         // Also add Spotify recommendations API call with seed artists
@@ -297,7 +293,7 @@ export async function GET(request: NextRequest) {
                 if (recsRes.ok) {
                     const recsData = await recsRes.json()
                     const tracks = recsData.tracks || []
-                    tracks.forEach((track: any) => {
+                    tracks.forEach((track: SpotifyTrack) => {
                         if (!playedTrackIds.has(track.id) && !trackIds.has(track.id)) {
                             trackIds.add(track.id)
                             allTracks.push(track)
@@ -324,8 +320,8 @@ export async function GET(request: NextRequest) {
         })
 
         const searchResults = await Promise.all(searchPromises)
-        searchResults.flat().forEach((track: any) => {
-            if (track && !playedTrackIds.has(track.id) && !trackIds.has(track.id) && track.album?.images?.length > 0) {
+        searchResults.flat().forEach((track: SpotifyTrack | null) => {
+            if (track && !playedTrackIds.has(track.id) && !trackIds.has(track.id) && (track.album?.images?.length ?? 0) > 0) {
                 trackIds.add(track.id)
                 allTracks.push(track)
             }
@@ -363,7 +359,7 @@ export async function GET(request: NextRequest) {
         console.error('AI Recommendations API error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
 
 // Guest recommendations (generic popular music)
 async function getGuestRecommendations(request: NextRequest, limit: number) {
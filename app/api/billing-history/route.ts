@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// GET - Billing history (payments, refunds, plan changes) of the current user
+export const GET = withAuth(async (request, { user }) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const limit = parseInt(searchParams.get('limit') || '50')
+        const offset = parseInt(searchParams.get('offset') || '0')
+
+        const { data: entries, error: historyError, count } = await supabaseAdmin
+            .from('billing_history')
+            .select('id, type, title, description, amount, transaction_id, created_at', { count: 'exact' })
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (historyError) {
+            console.error('Error fetching billing history:', historyError)
+            return NextResponse.json({ error: 'Failed to fetch billing history' }, { status: 500 })
+        }
+
+        return NextResponse.json({
+            history: entries || [],
+            total: count || 0,
+            limit,
+            offset
+        })
+
+    } catch (error) {
+        console.error('Billing history API error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
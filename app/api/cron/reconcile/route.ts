@@ -0,0 +1,25 @@
+// app/api/cron/reconcile/route.ts
+// Tripay reconciliation job. Call it from a scheduler (e.g. Vercel Cron)
+// with `Authorization: Bearer <CRON_SECRET>`.
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronAuthorized } from '@/lib/auth';
+import { reconcileTransactions } from '@/lib/reconciliation';
+
+async function handle(request: NextRequest) {
+    if (!isCronAuthorized(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const report = await reconcileTransactions({ triggeredBy: 'cron' });
+        console.log(`Reconciliation finished: ${report.checked} checked, ${report.drifts.length} drifts, ${report.mismatches.length} mismatches, ${report.orphans.length} orphans`);
+        return NextResponse.json({ success: true, report });
+    } catch (error) {
+        console.error('Reconciliation error:', error);
+        return NextResponse.json({ error: 'Reconciliation failed' }, { status: 500 });
+    }
+}
+
+// Vercel Cron sends GET; POST is accepted for other schedulers
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,25 @@
+// app/api/cron/subscriptions/route.ts
+// Subscription maintenance job. Call it from a scheduler (e.g. Vercel Cron)
+// with `Authorization: Bearer <CRON_SECRET>`.
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronAuthorized } from '@/lib/auth';
+import { runSubscriptionSweep } from '@/lib/subscription-sweeper';
+
+async function handle(request: NextRequest) {
+    if (!isCronAuthorized(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await runSubscriptionSweep();
+        console.log('Subscription sweep finished:', result);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Subscription sweep error:', error);
+        return NextResponse.json({ error: 'Subscription sweep failed' }, { status: 500 });
+    }
+}
+
+// Vercel Cron sends GET; POST is accepted for other schedulers
+export const GET = handle;
+export const POST = handle;
@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+import { withOptionalAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
 
 interface HistoryItem {
     genre: string | null
@@ -64,30 +62,18 @@ function normalizeGenre(genre: string): string {
     return 'pop' // Fallback to pop
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withOptionalAuth(async (request, { user }) => {
     try {
-        // Get auth token from header (optional for guests)
-        const authHeader = request.headers.get('authorization')
         const { searchParams } = new URL(request.url)
         const limit = parseInt(searchParams.get('limit') || '20')
 
-        // If no auth, return genre-based recommendations for guests
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return getGuestRecommendations(request, limit)
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-        const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-
-        // Get user from token
-        const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
-
-        if (authError || !user) {
+        // Guests (no or an invalid token) get genre-based recommendations
+        if (!user) {
             return getGuestRecommendations(request, limit)
         }
 
         // Fetch user's listening history with genres
-        const { data: history, error: historyError } = await supabaseClient
+        const { data: history, error: historyError } = await supabaseAdmin
             .from('listening_history')
             .select('genre, track_id')
             .eq('user_id', user.id)
@@ -163,7 +149,7 @@ export async function GET(request: NextRequest) {
         console.error('Discover API error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
 
 // Fallback for guests or users without history
 async function getGuestRecommendations(request: NextRequest, limit: number) {
@@ -0,0 +1,29 @@
+// app/api/family/accept/route.ts
+import { NextResponse } from 'next/server';
+import { acceptInvite, FamilyError } from '@/lib/family';
+import { withAuth } from '@/lib/auth';
+
+// POST - Accept an invite sent to the caller's email
+export const POST = withAuth(async (request, { user }) => {
+    try {
+        const { invite_id } = await request.json();
+        if (!invite_id) {
+            return NextResponse.json({ error: 'invite_id is required' }, { status: 400 });
+        }
+
+        const member = await acceptInvite(invite_id, user);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Berhasil bergabung ke paket keluarga',
+            data: { id: member.id, ownerId: member.owner_id, joinedAt: member.joined_at },
+        });
+    } catch (error) {
+        if (error instanceof FamilyError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+
+        console.error('Accept family invite error:', error);
+        return NextResponse.json({ error: 'Failed to accept invite' }, { status: 500 });
+    }
+});
@@ -0,0 +1,108 @@
+// app/api/family/route.ts
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import {
+    FamilyError,
+    getActiveMembership,
+    getOwnerGroupPlan,
+    inviteMember,
+    listMembers,
+    planSeats,
+    removeMember,
+} from '@/lib/family';
+
+function handleError(error: unknown, fallback: string) {
+    if (error instanceof FamilyError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error(`${fallback}:`, error);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET - The caller's group: members and seats as owner, the owner as member,
+// and pending invites addressed to the caller
+export const GET = withAuth(async (request, { user }) => {
+    try {
+        const plan = await getOwnerGroupPlan(user.id);
+        const members = await listMembers(user.id);
+        const membership = await getActiveMembership(user.id);
+
+        const { data: invites } = user.email
+            ? await supabaseAdmin
+                .from('plan_members')
+                .select('id, owner_id, invited_at')
+                .eq('member_email', user.email.toLowerCase())
+                .eq('status', 'invited')
+            : { data: [] };
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                owner: plan ? {
+                    planId: plan.id,
+                    planName: plan.name,
+                    seats: planSeats(plan),
+                    seatsUsed: members.length + 1,
+                    members: members.map(member => ({
+                        id: member.id,
+                        email: member.member_email,
+                        status: member.status,
+                        invitedAt: member.invited_at,
+                        joinedAt: member.joined_at,
+                    })),
+                } : null,
+                membership: membership ? {
+                    id: membership.id,
+                    ownerId: membership.owner_id,
+                    joinedAt: membership.joined_at,
+                } : null,
+                invites: invites || [],
+            },
+        });
+    } catch (error) {
+        return handleError(error, 'Failed to fetch family plan');
+    }
+});
+
+// POST - Invite a member by email (owner only)
+export const POST = withAuth(async (request, { user }) => {
+    try {
+        const { email } = await request.json();
+        if (!email) {
+            return NextResponse.json({ error: 'email is required' }, { status: 400 });
+        }
+
+        const invite = await inviteMember({
+            id: user.id,
+            email: user.email,
+            name: user.user_metadata?.full_name,
+        }, email);
+
+        return NextResponse.json({
+            success: true,
+            message: `Undangan terkirim ke ${invite.member_email}`,
+            data: { id: invite.id, email: invite.member_email, status: invite.status },
+        });
+    } catch (error) {
+        return handleError(error, 'Failed to invite member');
+    }
+});
+
+// DELETE - Remove a member or cancel an invite (owner), or leave the group
+// (member): ?id=<member id>
+export const DELETE = withAuth(async (request, { user }) => {
+    try {
+        const id = new URL(request.url).searchParams.get('id');
+        if (!id) {
+            return NextResponse.json({ error: 'id is required' }, { status: 400 });
+        }
+
+        await removeMember(id, user.id);
+
+        return NextResponse.json({ success: true, message: 'Anggota berhasil dihapus' });
+    } catch (error) {
+        return handleError(error, 'Failed to remove member');
+    }
+});
@@ -1,7 +1,32 @@
 import { NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { OptionalAuthContext, withOptionalAuth } from '@/lib/auth';
+import { consumeQuota } from '@/lib/quota';
+
+// Count one AI generation against the daily limit of the user's plan. Guests
+// are only let through when the free plan's AI generations are unlimited
+// (blocked users never get here, see withOptionalAuth).
+async function consumeAiGeneration(req: Request, { user, entitlements }: OptionalAuthContext, headers: HeadersInit) {
+  if (!user) {
+    return entitlements.aiGenerations < 0
+      ? null
+      : NextResponse.json({ error: 'Masuk untuk menggunakan pencarian AI' }, { status: 401, headers });
+  }
+
+  const quota = await consumeQuota(user.id, 'ai_generations', { client: req.headers.get('user-agent') });
+  if (quota.consumed) return null;
+
+  return NextResponse.json({
+    error: quota.limit === 0
+      ? 'Pencarian AI tidak tersedia di paket Anda. Upgrade untuk menggunakannya!'
+      : `Batas harian ${quota.limit} pencarian AI tercapai. Upgrade untuk lanjut!`,
+    limit: quota.limit,
+    remaining: 0,
+    resets_at: quota.resetsAt
+  }, { status: 429, headers });
+}
 
-export async function POST(req: Request) {
+export const POST = withOptionalAuth(async (req, auth) => {
   const headers = {
     'Access-Control-Allow-Origin': '*',
     'Content-Type': 'application/json',
@@ -38,6 +63,9 @@ export async function POST(req: Request) {
 
     userPrompt = prompt;
 
+    const limited = await consumeAiGeneration(req, auth, headers);
+    if (limited) return limited;
+
     const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
     const model = genAI.getGenerativeModel({
       model: 'gemini-2.5-flash',
@@ -103,7 +131,7 @@ Return only the search query, nothing else.`;
     console.log(`Using default fallback query: ${defaultQuery}`);
     return NextResponse.json({ query: defaultQuery }, { headers });
   }
-}
+});
 
 export async function OPTIONS() {
   return NextResponse.json({}, {
@@ -1,8 +1,31 @@
 // app/api/gemini/route.ts
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { NextResponse } from 'next/server';
+import { OptionalAuthContext, withOptionalAuth } from '@/lib/auth';
+import { consumeQuota } from '@/lib/quota';
+
+// Count one AI generation against the daily limit of the user's plan. Guests
+// are only let through when the free plan's AI generations are unlimited
+// (blocked users never get here, see withOptionalAuth).
+async function consumeAiGeneration(req: Request, { user, entitlements }: OptionalAuthContext, headers: HeadersInit) {
+  if (!user) {
+    return entitlements.aiGenerations < 0
+      ? null
+      : NextResponse.json({ error: 'Masuk untuk menggunakan pencarian AI' }, { status: 401, headers });
+  }
 
-import { NextRequest } from 'next/server';
+  const quota = await consumeQuota(user.id, 'ai_generations', { client: req.headers.get('user-agent') });
+  if (quota.consumed) return null;
+
+  return NextResponse.json({
+    error: quota.limit === 0
+      ? 'Pencarian AI tidak tersedia di paket Anda. Upgrade untuk menggunakannya!'
+      : `Batas harian ${quota.limit} pencarian AI tercapai. Upgrade untuk lanjut!`,
+    limit: quota.limit,
+    remaining: 0,
+    resets_at: quota.resetsAt
+  }, { status: 429, headers });
+}
 
 export async function OPTIONS() {
   return NextResponse.json({}, {
@@ -14,7 +37,7 @@ export async function OPTIONS() {
   });
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withOptionalAuth(async (req, auth) => {
   try {
     // Validate request method
     if (req.method !== 'POST') {
@@ -87,6 +110,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const limited = await consumeAiGeneration(req, auth, headers);
+    if (limited) return limited;
+
     console.log('Processing prompt:', userPrompt);
 
     // Inisialisasi Gemini AI dengan error handling
@@ -122,7 +148,7 @@ export async function POST(req: NextRequest) {
       // Generate content dengan proper error handling dan timeout
       const result = await Promise.race([
         model.generateContent(testPrompt),
-        new Promise((_, reject) => 
+        new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Request timeout')), 60000)
         )
       ]);
@@ -133,7 +159,7 @@ export async function POST(req: NextRequest) {
 
       console.log('Gemini response received:', result);
 
-      const response = await (result as any).response;
+      const response = result.response;
       if (!response) {
         throw new Error('Invalid response structure from Gemini API');
       }
@@ -211,4 +237,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,35 @@
+// app/api/gifts/redeem/route.ts
+import { NextResponse } from 'next/server';
+import { GiftError, redeemGift } from '@/lib/gifts';
+import { withAuth } from '@/lib/auth';
+
+// POST - Redeem a gift code onto the caller's subscription. The caller's
+// email must be the one the gift was bought for.
+export const POST = withAuth(async (request, { user }) => {
+    try {
+        const { code } = await request.json();
+        if (!code || typeof code !== 'string') {
+            return NextResponse.json({ error: 'code is required' }, { status: 400 });
+        }
+
+        const { plan, period } = await redeemGift(code, user);
+
+        return NextResponse.json({
+            success: true,
+            message: `Hadiah berhasil ditukarkan. Paket ${plan.name} aktif hingga ${new Date(period.expiresAt!).toLocaleDateString('id-ID')}.`,
+            data: {
+                planId: plan.id,
+                planName: plan.name,
+                startsAt: period.startsAt,
+                expiresAt: period.expiresAt,
+            },
+        });
+    } catch (error) {
+        if (error instanceof GiftError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+
+        console.error('Redeem gift error:', error);
+        return NextResponse.json({ error: 'Failed to redeem gift' }, { status: 500 });
+    }
+});
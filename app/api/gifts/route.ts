@@ -0,0 +1,124 @@
+// app/api/gifts/route.ts
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { calculatePlanCharge, getPlan, PlanChargeError } from '@/lib/plans';
+import { applyVoucherCode, VoucherError } from '@/lib/vouchers';
+import { createCheckout } from '@/lib/checkout';
+import { getActiveChannels } from '@/lib/payment-channels';
+import { GiftError, normalizeGiftEmail, parseGiftRequest } from '@/lib/gifts';
+import { withAuth } from '@/lib/auth';
+
+// GET - Gifts the caller bought and gifts sent to the caller's email
+export const GET = withAuth(async (request, { user }) => {
+    try {
+        const { data: sent, error: sentError } = await supabaseAdmin
+            .from('gifts')
+            .select('id, code, recipient_email, message, plan_id, quantity, status, redeemed_at, emailed_at, created_at, plans(name)')
+            .eq('purchaser_id', user.id)
+            .order('created_at', { ascending: false });
+
+        if (sentError) throw sentError;
+
+        const { data: received, error: receivedError } = user.email
+            ? await supabaseAdmin
+                .from('gifts')
+                .select('id, code, message, plan_id, quantity, status, redeemed_at, created_at, plans(name)')
+                .eq('recipient_email', normalizeGiftEmail(user.email))
+                .order('created_at', { ascending: false })
+            : { data: [], error: null };
+
+        if (receivedError) throw receivedError;
+
+        return NextResponse.json({ success: true, data: { sent: sent || [], received: received || [] } });
+    } catch (error) {
+        console.error('Get gifts error:', error);
+        return NextResponse.json({ error: 'Failed to fetch gifts' }, { status: 500 });
+    }
+});
+
+// POST - Buy a plan as a gift for an email address. The gift code is issued
+// and emailed once the payment succeeds.
+export const POST = withAuth(async (request, { user }) => {
+    try {
+        const {
+            planId,
+            quantity = 1,
+            voucherCode,
+            paymentMethod,
+            recipientEmail,
+            message,
+            userName
+        } = await request.json();
+
+        if (!planId || !paymentMethod || !recipientEmail) {
+            return NextResponse.json({ error: 'planId, paymentMethod and recipientEmail are required' }, { status: 400 });
+        }
+
+        if (!user.email) {
+            return NextResponse.json({ error: 'User has no email' }, { status: 400 });
+        }
+
+        const gift = parseGiftRequest(recipientEmail, message);
+
+        const plan = await getPlan(planId);
+        if (!plan) {
+            return NextResponse.json({ error: 'Invalid plan' }, { status: 400 });
+        }
+
+        const { channels } = await getActiveChannels();
+        if (!channels.some(ch => ch.code === paymentMethod)) {
+            return NextResponse.json({ error: 'Payment method is not available' }, { status: 400 });
+        }
+
+        // Gifts are paid in full: no upgrade credit from the buyer's own plan
+        let charge = calculatePlanCharge(plan, Number(quantity));
+        if (voucherCode) {
+            charge = await applyVoucherCode(charge, voucherCode, user.id);
+        }
+
+        const { merchantRef, transaction } = await createCheckout({
+            userId: user.id,
+            customerName: userName || user.user_metadata?.full_name || 'Beatly User',
+            customerEmail: user.email,
+            paymentMethod,
+            charge,
+            gift,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                reference: transaction.reference,
+                merchantRef,
+                payCode: transaction.pay_code,
+                payUrl: transaction.pay_url,
+                checkoutUrl: transaction.checkout_url,
+                qrUrl: transaction.qr_url,
+                qrString: transaction.qr_string,
+                planId: plan.id,
+                planName: plan.name,
+                quantity: charge.quantity,
+                recipientEmail: gift.recipientEmail,
+                subtotal: charge.subtotal,
+                discount: charge.discount,
+                voucherCode: charge.voucher?.code || null,
+                amount: transaction.amount,
+                fee: transaction.total_fee,
+                total: transaction.amount + transaction.total_fee,
+                expiredTime: transaction.expired_time,
+                instructions: transaction.instructions,
+                paymentName: transaction.payment_name,
+            },
+        });
+    } catch (error) {
+        if (error instanceof PlanChargeError || error instanceof VoucherError || error instanceof GiftError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+
+        console.error('Create gift payment error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create payment' },
+            { status: 500 }
+        );
+    }
+});
@@ -1,8 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { PlayGrantError, verifyPlayGrant } from '@/lib/play-grants'
 
 interface HistoryEntry {
     track_id: string
@@ -11,28 +10,11 @@ interface HistoryEntry {
     album_name?: string
     album_image?: string
     genre?: string
+    play_grant?: string // from POST /api/play/authorize
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
     try {
-        // Get auth token from header
-        const authHeader = request.headers.get('authorization')
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-
-        // Create client with service key
-        const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-
-        // Get user from token
-        const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
-
-        if (authError || !user) {
-            return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-        }
-
         // Get track data from body
         const body: HistoryEntry = await request.json()
 
@@ -40,9 +22,19 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
         }
 
+        // Only plays that were counted through a play grant are recorded
+        try {
+            verifyPlayGrant(body.play_grant, user.id, body.track_id)
+        } catch (grantError) {
+            if (grantError instanceof PlayGrantError) {
+                return NextResponse.json({ error: grantError.message }, { status: grantError.status })
+            }
+            throw grantError
+        }
+
         // Check if same track was played in last 30 seconds (prevent duplicates from repeat)
         const thirtySecondsAgo = new Date(Date.now() - 30000).toISOString()
-        const { data: recentPlay } = await supabaseClient
+        const { data: recentPlay } = await supabaseAdmin
             .from('listening_history')
             .select('id')
             .eq('user_id', user.id)
@@ -56,7 +48,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Insert listening history
-        const { error: insertError } = await supabaseClient
+        const { error: insertError } = await supabaseAdmin
             .from('listening_history')
             .insert({
                 user_id: user.id,
@@ -79,4 +71,4 @@ export async function POST(request: NextRequest) {
         console.error('History add API error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
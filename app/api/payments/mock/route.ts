@@ -0,0 +1,68 @@
+// app/api/payments/mock/route.ts
+// Local checkout helper, only available when PAYMENT_GATEWAY=mock
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentGateway } from '@/lib/payments';
+import { MockCallbackStatus, simulateCallback } from '@/lib/mock-gateway';
+
+const SIMULATED_STATUSES: MockCallbackStatus[] = ['PAID', 'EXPIRED', 'FAILED', 'REFUND'];
+
+function isMockEnabled() {
+    return getPaymentGateway().name === 'mock';
+}
+
+// GET - Inspect a mock transaction (used as the mock checkout_url)
+export async function GET(request: NextRequest) {
+    if (!isMockEnabled()) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const reference = new URL(request.url).searchParams.get('reference');
+    if (!reference) {
+        return NextResponse.json({ error: 'Reference is required' }, { status: 400 });
+    }
+
+    try {
+        const transaction = await getPaymentGateway().getTransactionDetail(reference);
+        return NextResponse.json({ success: true, data: transaction });
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Transaction not found' },
+            { status: 404 }
+        );
+    }
+}
+
+// POST - Simulate a gateway callback for a mock transaction
+export async function POST(request: NextRequest) {
+    if (!isMockEnabled()) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    try {
+        const { reference, status = 'PAID' } = await request.json();
+
+        if (!reference) {
+            return NextResponse.json({ error: 'Reference is required' }, { status: 400 });
+        }
+
+        if (!SIMULATED_STATUSES.includes(status)) {
+            return NextResponse.json(
+                { error: `Status must be one of ${SIMULATED_STATUSES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const callback = await simulateCallback(reference, status);
+
+        return NextResponse.json({
+            success: callback.status >= 200 && callback.status < 300,
+            callback,
+        });
+    } catch (error) {
+        console.error('Mock callback error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to simulate callback' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,106 @@
+// app/api/play/authorize/route.ts
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { consumeQuota, QuotaResult } from '@/lib/quota';
+import { PlayGrantError, signPlayGrant, verifyPlayGrant } from '@/lib/play-grants';
+import { searchYouTubeForSong } from '@/lib/youtube';
+
+function usageDetails(quota: QuotaResult) {
+    return {
+        currentUsage: quota.used,
+        limit: quota.limit,
+        remaining: quota.remaining,
+        unlimited: quota.unlimited,
+        resets_at: quota.resetsAt,
+        // Bonus plays left; via_credit when this play used one
+        credits: quota.credits,
+        via_credit: quota.viaCredit,
+    };
+}
+
+// POST - Count a play of a track and get a signed play grant for it, along
+// with the YouTube video to play. Body: { track_id, title, artist, client? }
+export const POST = withAuth(async (req, { user }) => {
+
+    if (!process.env.PLAY_GRANT_SECRET) {
+        return NextResponse.json({ error: 'Play grants are not configured' }, { status: 500 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const trackId = typeof body?.track_id === 'string' ? body.track_id.trim() : '';
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+    const artist = typeof body?.artist === 'string' ? body.artist.trim() : '';
+
+    if (!trackId || !title || !artist) {
+        return NextResponse.json({ error: 'track_id, title dan artist wajib diisi' }, { status: 400 });
+    }
+
+    // Resolve the video first so a failed lookup does not cost a play
+    let videoId: string | null;
+    try {
+        videoId = await searchYouTubeForSong(title, artist);
+    } catch (searchError) {
+        console.error('Error resolving YouTube video:', searchError);
+        return NextResponse.json({ error: 'Pencarian video sedang tidak tersedia, coba lagi nanti' }, { status: 503 });
+    }
+
+    if (!videoId) {
+        return NextResponse.json({ error: 'Video untuk lagu ini tidak ditemukan' }, { status: 404 });
+    }
+
+    // Check and count the play in one step; at the limit nothing is counted
+    let quota: QuotaResult;
+    try {
+        quota = await consumeQuota(user.id, 'plays', {
+            trackId,
+            videoId,
+            client: typeof body?.client === 'string' ? body.client : req.headers.get('user-agent'),
+        });
+    } catch (quotaError) {
+        console.error('Error consuming play quota:', quotaError);
+        return NextResponse.json({ error: 'Failed to update usage' }, { status: 500 });
+    }
+
+    if (!quota.consumed) {
+        return NextResponse.json({
+            error: `Batas harian ${quota.limit} lagu tercapai. Upgrade untuk lanjut mendengarkan!`,
+            allowed: false,
+            ...usageDetails(quota),
+        }, { status: 429 });
+    }
+
+    const { token, grant } = signPlayGrant({ playId: quota.eventId, userId: user.id, trackId, videoId });
+
+    return NextResponse.json({
+        allowed: true,
+        video_id: videoId,
+        play_grant: token,
+        expires_at: grant.expiresAt,
+        ...usageDetails(quota),
+    });
+});
+
+// GET - Check a play grant before starting playback:
+// ?grant=<play_grant>&track_id=<optional>
+export const GET = withAuth(async (req, { user }) => {
+
+    const { searchParams } = new URL(req.url);
+
+    try {
+        const grant = verifyPlayGrant(searchParams.get('grant'), user.id, searchParams.get('track_id'));
+
+        return NextResponse.json({
+            valid: true,
+            track_id: grant.trackId,
+            video_id: grant.videoId,
+            expires_at: grant.expiresAt,
+        });
+    } catch (error) {
+        if (error instanceof PlayGrantError) {
+            return NextResponse.json({ valid: false, error: error.message }, { status: error.status });
+        }
+
+        console.error('Error verifying play grant:', error);
+        return NextResponse.json({ error: 'Failed to verify play grant' }, { status: 500 });
+    }
+});
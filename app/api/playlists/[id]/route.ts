@@ -1,34 +1,15 @@
 // app/api/playlists/[id]/route.ts
-import { createClient } from '@supabase/supabase-js';
-import { NextRequest, NextResponse } from 'next/server';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-// Helper to get user from token
-async function getUserFromToken(request: NextRequest) {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) return null;
-
-    const token = authHeader.substring(7);
-    const { data: { user }, error } = await supabase.auth.getUser(token);
-    if (error || !user) return null;
-    return user;
-}
+import { NextResponse } from 'next/server';
+import { withAuth, withOptionalAuth } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
 
 // GET - Get playlist detail
-export async function GET(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withOptionalAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
 
         // Get playlist with tracks
-        const { data: playlist, error } = await supabase
+        const { data: playlist, error } = await supabaseAdmin
             .from('playlists')
             .select(`
         *,
@@ -56,10 +37,10 @@ export async function GET(
         }
 
         // Sort tracks by position
-        const tracks = (playlist.playlist_tracks || []).sort((a: any, b: any) => a.position - b.position);
+        const tracks = (playlist.playlist_tracks || []).sort((a: { position: number }, b: { position: number }) => a.position - b.position);
 
         // Get save count
-        const { count: saveCount } = await supabase
+        const { count: saveCount } = await supabaseAdmin
             .from('saved_playlists')
             .select('*', { count: 'exact', head: true })
             .eq('playlist_id', id);
@@ -67,7 +48,7 @@ export async function GET(
         // Check if user has saved this playlist
         let is_saved = false;
         if (user && playlist.user_id !== user.id) {
-            const { data: savedCheck } = await supabase
+            const { data: savedCheck } = await supabaseAdmin
                 .from('saved_playlists')
                 .select('id')
                 .eq('playlist_id', id)
@@ -77,7 +58,7 @@ export async function GET(
         }
 
         // Get owner info
-        const { data: ownerProfile } = await supabase
+        const { data: ownerProfile } = await supabaseAdmin
             .from('user_profiles')
             .select('full_name, avatar_url')
             .eq('user_id', playlist.user_id)
@@ -97,22 +78,15 @@ export async function GET(
         console.error('Error fetching playlist:', error);
         return NextResponse.json({ error: 'Failed to fetch playlist' }, { status: 500 });
     }
-}
+});
 
 // PUT - Update playlist
-export async function PUT(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
 
         // Check ownership
-        const { data: existingPlaylist } = await supabase
+        const { data: existingPlaylist } = await supabaseAdmin
             .from('playlists')
             .select('user_id')
             .eq('id', id)
@@ -123,7 +97,7 @@ export async function PUT(
         }
 
         const body = await request.json();
-        const updates: any = {};
+        const updates: Record<string, unknown> = {};
 
         if (body.name !== undefined) updates.name = body.name.trim();
         if (body.description !== undefined) updates.description = body.description?.trim() || null;
@@ -132,7 +106,7 @@ export async function PUT(
 
         updates.updated_at = new Date().toISOString();
 
-        const { data: playlist, error } = await supabase
+        const { data: playlist, error } = await supabaseAdmin
             .from('playlists')
             .update(updates)
             .eq('id', id)
@@ -147,22 +121,15 @@ export async function PUT(
         console.error('Error updating playlist:', error);
         return NextResponse.json({ error: 'Failed to update playlist' }, { status: 500 });
     }
-}
+});
 
 // DELETE - Delete playlist
-export async function DELETE(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
 
         // Check ownership
-        const { data: existingPlaylist } = await supabase
+        const { data: existingPlaylist } = await supabaseAdmin
             .from('playlists')
             .select('user_id')
             .eq('id', id)
@@ -172,7 +139,7 @@ export async function DELETE(
             return NextResponse.json({ error: 'Access denied' }, { status: 403 });
         }
 
-        const { error } = await supabase
+        const { error } = await supabaseAdmin
             .from('playlists')
             .delete()
             .eq('id', id);
@@ -185,4 +152,4 @@ export async function DELETE(
         console.error('Error deleting playlist:', error);
         return NextResponse.json({ error: 'Failed to delete playlist' }, { status: 500 });
     }
-}
+});
@@ -1,37 +1,15 @@
 // app/api/playlists/[id]/save/route.ts
-import { createClient } from '@supabase/supabase-js';
-import { NextRequest, NextResponse } from 'next/server';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-// Helper to get user from token
-async function getUserFromToken(request: NextRequest) {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) return null;
-
-    const token = authHeader.substring(7);
-    const { data: { user }, error } = await supabase.auth.getUser(token);
-    if (error || !user) return null;
-    return user;
-}
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
 
 // POST - Save/follow a playlist
-export async function POST(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const POST = withAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
 
         // Check playlist exists and is public
-        const { data: playlist } = await supabase
+        const { data: playlist } = await supabaseAdmin
             .from('playlists')
             .select('id, user_id, is_public')
             .eq('id', id)
@@ -50,7 +28,7 @@ export async function POST(
         }
 
         // Save the playlist
-        const { error } = await supabase
+        const { error } = await supabaseAdmin
             .from('saved_playlists')
             .insert({
                 user_id: user.id,
@@ -70,21 +48,14 @@ export async function POST(
         console.error('Error saving playlist:', error);
         return NextResponse.json({ error: 'Failed to save playlist' }, { status: 500 });
     }
-}
+});
 
 // DELETE - Unsave/unfollow a playlist
-export async function DELETE(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
 
-        const { error } = await supabase
+        const { error } = await supabaseAdmin
             .from('saved_playlists')
             .delete()
             .eq('user_id', user.id)
@@ -98,4 +69,4 @@ export async function DELETE(
         console.error('Error unsaving playlist:', error);
         return NextResponse.json({ error: 'Failed to unsave playlist' }, { status: 500 });
     }
-}
+});
@@ -1,34 +1,15 @@
 // app/api/playlists/[id]/tracks/route.ts
-import { createClient } from '@supabase/supabase-js';
-import { NextRequest, NextResponse } from 'next/server';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-// Helper to get user from token
-async function getUserFromToken(request: NextRequest) {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) return null;
-
-    const token = authHeader.substring(7);
-    const { data: { user }, error } = await supabase.auth.getUser(token);
-    if (error || !user) return null;
-    return user;
-}
+import { NextResponse } from 'next/server';
+import { withAuth, withOptionalAuth } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
 
 // GET - Get tracks in playlist
-export async function GET(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withOptionalAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
 
         // Check playlist exists and is accessible
-        const { data: playlist } = await supabase
+        const { data: playlist } = await supabaseAdmin
             .from('playlists')
             .select('id, user_id, is_public')
             .eq('id', id)
@@ -42,7 +23,7 @@ export async function GET(
             return NextResponse.json({ error: 'Access denied' }, { status: 403 });
         }
 
-        const { data: tracks, error } = await supabase
+        const { data: tracks, error } = await supabaseAdmin
             .from('playlist_tracks')
             .select('*')
             .eq('playlist_id', id)
@@ -56,22 +37,15 @@ export async function GET(
         console.error('Error fetching playlist tracks:', error);
         return NextResponse.json({ error: 'Failed to fetch tracks' }, { status: 500 });
     }
-}
+});
 
 // POST - Add track to playlist
-export async function POST(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const POST = withAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
 
         // Check ownership
-        const { data: playlist } = await supabase
+        const { data: playlist } = await supabaseAdmin
             .from('playlists')
             .select('user_id')
             .eq('id', id)
@@ -89,7 +63,7 @@ export async function POST(
         }
 
         // Get the next position
-        const { data: lastTrack } = await supabase
+        const { data: lastTrack } = await supabaseAdmin
             .from('playlist_tracks')
             .select('position')
             .eq('playlist_id', id)
@@ -100,7 +74,7 @@ export async function POST(
         const nextPosition = (lastTrack?.position ?? -1) + 1;
 
         // Insert track
-        const { data: newTrack, error } = await supabase
+        const { data: newTrack, error } = await supabaseAdmin
             .from('playlist_tracks')
             .insert({
                 playlist_id: id,
@@ -127,22 +101,15 @@ export async function POST(
         console.error('Error adding track:', error);
         return NextResponse.json({ error: 'Failed to add track' }, { status: 500 });
     }
-}
+});
 
 // DELETE - Remove track from playlist
-export async function DELETE(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
     try {
         const { id } = await params;
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
 
         // Check ownership
-        const { data: playlist } = await supabase
+        const { data: playlist } = await supabaseAdmin
             .from('playlists')
             .select('user_id')
             .eq('id', id)
@@ -159,7 +126,7 @@ export async function DELETE(
             return NextResponse.json({ error: 'track_id is required' }, { status: 400 });
         }
 
-        const { error } = await supabase
+        const { error } = await supabaseAdmin
             .from('playlist_tracks')
             .delete()
             .eq('playlist_id', id)
@@ -173,4 +140,4 @@ export async function DELETE(
         console.error('Error removing track:', error);
         return NextResponse.json({ error: 'Failed to remove track' }, { status: 500 });
     }
-}
+});
@@ -1,11 +1,6 @@
 // app/api/playlists/public/route.ts
-import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+import { supabaseAdmin } from '@/lib/supabase';
 
 // GET - Search/list public playlists
 export async function GET(request: NextRequest) {
@@ -15,7 +10,7 @@ export async function GET(request: NextRequest) {
         const limit = parseInt(searchParams.get('limit') || '20');
         const offset = parseInt(searchParams.get('offset') || '0');
 
-        let queryBuilder = supabase
+        let queryBuilder = supabaseAdmin
             .from('playlists')
             .select(`
         *,
@@ -49,7 +44,7 @@ export async function GET(request: NextRequest) {
 
         // Get owner info for all playlists
         const userIds = [...new Set(formattedPlaylists.map(p => p.user_id))];
-        const { data: profiles } = await supabase
+        const { data: profiles } = await supabaseAdmin
             .from('user_profiles')
             .select('user_id, full_name, avatar_url')
             .in('user_id', userIds);
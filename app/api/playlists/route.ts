@@ -1,33 +1,13 @@
 // app/api/playlists/route.ts
-import { createClient } from '@supabase/supabase-js';
-import { NextRequest, NextResponse } from 'next/server';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-// Helper to get user from token
-async function getUserFromToken(request: NextRequest) {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) return null;
-
-    const token = authHeader.substring(7);
-    const { data: { user }, error } = await supabase.auth.getUser(token);
-    if (error || !user) return null;
-    return user;
-}
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
 
 // GET - List user's playlists (owned + saved)
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
     try {
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
         // Get owned playlists
-        const { data: ownedPlaylists, error: ownedError } = await supabase
+        const { data: ownedPlaylists, error: ownedError } = await supabaseAdmin
             .from('playlists')
             .select(`
         *,
@@ -40,7 +20,7 @@ export async function GET(request: NextRequest) {
         if (ownedError) throw ownedError;
 
         // Get saved playlists
-        const { data: savedData, error: savedError } = await supabase
+        const { data: savedData, error: savedError } = await supabaseAdmin
             .from('saved_playlists')
             .select(`
         playlist_id,
@@ -65,13 +45,17 @@ export async function GET(request: NextRequest) {
         }));
 
         // Format saved playlists
-        const saved = (savedData || []).map((s: any) => ({
-            ...(s.playlists as any),
-            track_count: (s.playlists as any)?.playlist_tracks?.[0]?.count || 0,
-            saved_at: s.saved_at,
-            is_owner: false,
-            is_saved: true
-        }));
+        // playlists is a single row (many-to-one), though typed as an array
+        const saved = (savedData || []).map(s => {
+            const playlist = s.playlists as unknown as { playlist_tracks?: { count: number }[] } | null;
+            return {
+                ...playlist,
+                track_count: playlist?.playlist_tracks?.[0]?.count || 0,
+                saved_at: s.saved_at,
+                is_owner: false,
+                is_saved: true
+            };
+        });
 
         return NextResponse.json({
             owned,
@@ -83,16 +67,11 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching playlists:', error);
         return NextResponse.json({ error: 'Failed to fetch playlists' }, { status: 500 });
     }
-}
+});
 
 // POST - Create new playlist
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user, entitlements }) => {
     try {
-        const user = await getUserFromToken(request);
-        if (!user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
         const body = await request.json();
         const { name, description, is_public = false, cover_image } = body;
 
@@ -100,7 +79,26 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Playlist name is required' }, { status: 400 });
         }
 
-        const { data: playlist, error } = await supabase
+        // Check the plan's playlist limit (-1 is unlimited)
+        if (entitlements.playlists >= 0) {
+            const { count, error: countError } = await supabaseAdmin
+                .from('playlists')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', user.id);
+
+            if (countError) throw countError;
+
+            if ((count || 0) >= entitlements.playlists) {
+                return NextResponse.json({
+                    error: entitlements.playlists === 0
+                        ? `Paket ${entitlements.planName} tidak bisa membuat playlist`
+                        : `Paket ${entitlements.planName} maksimal ${entitlements.playlists} playlist. Upgrade untuk membuat lebih banyak!`,
+                    limit: entitlements.playlists
+                }, { status: 403 });
+            }
+        }
+
+        const { data: playlist, error } = await supabaseAdmin
             .from('playlists')
             .insert({
                 user_id: user.id,
@@ -128,4 +126,4 @@ export async function POST(request: NextRequest) {
         console.error('Error creating playlist:', error);
         return NextResponse.json({ error: 'Failed to create playlist' }, { status: 500 });
     }
-}
+});
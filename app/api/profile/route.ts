@@ -1,55 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getUserTimeZoneState, isValidTimeZone, timezoneChangeEffectiveAt } from '@/lib/timezone'
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
-
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user, profile, entitlements }) => {
     try {
-        // Get auth token from header
-        const authHeader = request.headers.get('authorization')
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-
-        // Create client with service key
-        const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-
-        // Get user from token
-        const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
-
-        if (authError || !user) {
-            return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-        }
+        const timezone = await getUserTimeZoneState(user.id)
 
-        // Get subscription info
-        const { data: subscription } = await supabaseClient
+        // Get today's usage
+        const { data: subscription } = await supabaseAdmin
             .from('user_subscriptions')
-            .select('plan_id, daily_usage')
+            .select('daily_usage')
             .eq('user_id', user.id)
             .single()
 
-        // Get plan details
-        let planDetails = null
-        if (subscription?.plan_id) {
-            const { data: plan } = await supabaseClient
-                .from('plans')
-                .select('name, daily_limit')
-                .eq('id', subscription.plan_id)
-                .single()
-            planDetails = plan
-        }
-
         // Get listening statistics
-        const { count: totalSongsPlayed } = await supabaseClient
+        const { count: totalSongsPlayed } = await supabaseAdmin
             .from('listening_history')
             .select('*', { count: 'exact', head: true })
             .eq('user_id', user.id)
 
         // Get unique artists count
-        const { data: artistsData } = await supabaseClient
+        const { data: artistsData } = await supabaseAdmin
             .from('listening_history')
             .select('artist_name')
             .eq('user_id', user.id)
@@ -59,7 +31,7 @@ export async function GET(request: NextRequest) {
         // Get today's plays
         const today = new Date()
         today.setHours(0, 0, 0, 0)
-        const { count: todayPlays } = await supabaseClient
+        const { count: todayPlays } = await supabaseAdmin
             .from('listening_history')
             .select('*', { count: 'exact', head: true })
             .eq('user_id', user.id)
@@ -68,7 +40,7 @@ export async function GET(request: NextRequest) {
         // Get this week's plays
         const weekAgo = new Date()
         weekAgo.setDate(weekAgo.getDate() - 7)
-        const { count: weekPlays } = await supabaseClient
+        const { count: weekPlays } = await supabaseAdmin
             .from('listening_history')
             .select('*', { count: 'exact', head: true })
             .eq('user_id', user.id)
@@ -86,26 +58,25 @@ export async function GET(request: NextRequest) {
         const estimatedMinutes = (totalSongsPlayed || 0) * 3.5
         const estimatedHours = Math.floor(estimatedMinutes / 60)
 
-        // Get custom profile from user_profiles table (persists after OAuth re-login)
-        const { data: customProfile } = await supabaseClient
-            .from('user_profiles')
-            .select('avatar_url, full_name')
-            .eq('user_id', user.id)
-            .single()
-
         return NextResponse.json({
             user: {
                 id: user.id,
                 email: user.email,
                 created_at: user.created_at,
-                // Prioritize custom profile, then user_metadata, then defaults
-                avatar_url: customProfile?.avatar_url || user.user_metadata?.avatar_url || null,
-                full_name: customProfile?.full_name || user.user_metadata?.full_name || user.user_metadata?.name || null
+                // Prioritize custom profile (persists after OAuth re-login), then
+                // user_metadata, then defaults
+                avatar_url: profile?.avatar_url || user.user_metadata?.avatar_url || null,
+                full_name: profile?.full_name || user.user_metadata?.full_name || user.user_metadata?.name || null,
+                // Daily play and skip limits reset at midnight in this timezone
+                timezone: timezone.timeZone,
+                // Requested timezone and when it takes over
+                pending_timezone: timezone.pending?.timeZone || null,
+                timezone_effective_at: timezone.pending?.effectiveAt || null
             },
             subscription: {
-                plan_id: subscription?.plan_id || 'free',
-                plan_name: planDetails?.name || 'Free',
-                daily_limit: planDetails?.daily_limit || 25,
+                plan_id: entitlements.planId,
+                plan_name: entitlements.planName,
+                daily_limit: entitlements.plays,
                 daily_usage: subscription?.daily_usage || 0
             },
             stats: {
@@ -122,34 +93,36 @@ export async function GET(request: NextRequest) {
         console.error('Profile API error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request, { user }) => {
     try {
-        // Get auth token from header
-        const authHeader = request.headers.get('authorization')
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-
-        // Create client with service key
-        const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-
-        // Get user from token
-        const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
-
-        if (authError || !user) {
-            return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-        }
-
         // Parse form data
         const formData = await request.formData()
         const avatar = formData.get('avatar') as File | null
         const fullName = formData.get('full_name') as string | null
+        const timezone = formData.get('timezone') as string | null
+
+        const updates: { avatar_url?: string; full_name?: string; timezone?: string } = {}
+        let timezoneChange: { pending_timezone: string | null; timezone_effective_at: string | null } | null = null
 
-        const updates: { avatar_url?: string; full_name?: string } = {}
+        // IANA timezone name, e.g. Asia/Jakarta or Asia/Makassar. Takes effect
+        // once today has ended in both the old and the new timezone, so it
+        // cannot be used to start a new day (and daily limits) early.
+        if (timezone !== null && timezone.trim() !== '') {
+            if (!isValidTimeZone(timezone.trim())) {
+                return NextResponse.json({ error: 'Invalid timezone' }, { status: 400 })
+            }
+            updates.timezone = timezone.trim()
+
+            const { timeZone: currentTimezone } = await getUserTimeZoneState(user.id)
+            timezoneChange = updates.timezone === currentTimezone
+                ? { pending_timezone: null, timezone_effective_at: null }
+                : {
+                    pending_timezone: updates.timezone,
+                    timezone_effective_at: timezoneChangeEffectiveAt(new Date(), currentTimezone, updates.timezone).toISOString()
+                }
+        }
 
         // Handle avatar upload
         if (avatar && avatar.size > 0) {
@@ -173,11 +146,11 @@ export async function PUT(request: NextRequest) {
             const buffer = new Uint8Array(arrayBuffer)
 
             // Check if bucket exists, if not create it
-            const { data: buckets } = await supabaseClient.storage.listBuckets()
+            const { data: buckets } = await supabaseAdmin.storage.listBuckets()
             const avatarBucketExists = buckets?.some(b => b.name === 'avatars')
 
             if (!avatarBucketExists) {
-                const { error: createBucketError } = await supabaseClient.storage.createBucket('avatars', {
+                const { error: createBucketError } = await supabaseAdmin.storage.createBucket('avatars', {
                     public: true,
                     fileSizeLimit: 5242880 // 5MB
                 })
@@ -191,19 +164,19 @@ export async function PUT(request: NextRequest) {
             }
 
             // Delete all old avatar files in user folder to save storage
-            const { data: existingFiles } = await supabaseClient.storage
+            const { data: existingFiles } = await supabaseAdmin.storage
                 .from('avatars')
                 .list(user.id)
 
             if (existingFiles && existingFiles.length > 0) {
                 const filesToDelete = existingFiles.map(f => `${user.id}/${f.name}`)
-                await supabaseClient.storage
+                await supabaseAdmin.storage
                     .from('avatars')
                     .remove(filesToDelete)
             }
 
             // Upload new avatar
-            const { data: uploadData, error: uploadError } = await supabaseClient.storage
+            const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
                 .from('avatars')
                 .upload(fileName, buffer, {
                     contentType: avatar.type,
@@ -218,7 +191,7 @@ export async function PUT(request: NextRequest) {
             }
 
             // Get public URL with cache buster to force refresh
-            const { data: { publicUrl } } = supabaseClient.storage
+            const { data: { publicUrl } } = supabaseAdmin.storage
                 .from('avatars')
                 .getPublicUrl(uploadData.path)
 
@@ -234,12 +207,13 @@ export async function PUT(request: NextRequest) {
         // Save to user_profiles table for persistence across OAuth logins
         if (Object.keys(updates).length > 0) {
             // Upsert to user_profiles table (this persists even after OAuth re-login)
-            const { error: profileError } = await supabaseClient
+            const { error: profileError } = await supabaseAdmin
                 .from('user_profiles')
                 .upsert({
                     user_id: user.id,
                     ...(updates.avatar_url && { avatar_url: updates.avatar_url }),
                     ...(updates.full_name && { full_name: updates.full_name }),
+                    ...timezoneChange,
                     updated_at: new Date().toISOString()
                 }, { onConflict: 'user_id' })
 
@@ -249,7 +223,7 @@ export async function PUT(request: NextRequest) {
             }
 
             // Also update user_metadata as backup (may be overwritten by OAuth)
-            const { error: updateError } = await supabaseClient.auth.admin.updateUserById(
+            const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
                 user.id,
                 {
                     user_metadata: {
@@ -268,6 +242,8 @@ export async function PUT(request: NextRequest) {
         return NextResponse.json({
             success: true,
             updates,
+            // When the new timezone takes over (null when it already applies)
+            timezone_effective_at: timezoneChange?.timezone_effective_at ?? null,
             message: 'Profile updated successfully'
         })
 
@@ -275,4 +251,4 @@ export async function PUT(request: NextRequest) {
         console.error('Profile update error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
@@ -1,38 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
 
 interface HistoryItem {
     artist_name: string
     track_id: string
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
     try {
-        // Get auth token from header
-        const authHeader = request.headers.get('authorization')
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-        const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-
-        // Get user from token
-        const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
-
-        if (authError || !user) {
-            return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-        }
-
         // Get query params
         const { searchParams } = new URL(request.url)
         const limit = parseInt(searchParams.get('limit') || '20')
 
         // Fetch user's listening history to analyze preferences
-        const { data: history, error: historyError } = await supabaseClient
+        const { data: history, error: historyError } = await supabaseAdmin
             .from('listening_history')
             .select('artist_name, track_id')
             .eq('user_id', user.id)
@@ -118,4 +100,4 @@ export async function GET(request: NextRequest) {
         console.error('Recommendations API error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
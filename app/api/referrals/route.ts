@@ -0,0 +1,52 @@
+// app/api/referrals/route.ts
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { attributeReferral, getReferralSettings, getReferralSummary, ReferralError } from '@/lib/referrals';
+
+function handleError(error: unknown, fallback: string) {
+    if (error instanceof ReferralError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error(`${fallback}:`, error);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET - The caller's referral code, the current reward and their referrals
+export const GET = withAuth(async (request, { user }) => {
+    try {
+        const summary = await getReferralSummary(user.id);
+        const settings = await getReferralSettings();
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                ...summary,
+                active: settings.is_active,
+                reward: { type: settings.reward_type, value: settings.reward_value },
+            },
+        });
+    } catch (error) {
+        return handleError(error, 'Failed to fetch referrals');
+    }
+});
+
+// POST - Enter a referral code after signing up: { code }
+export const POST = withAuth(async (request, { user }) => {
+    try {
+        const { code } = await request.json().catch(() => ({}));
+        if (!code || typeof code !== 'string') {
+            return NextResponse.json({ error: 'code is required' }, { status: 400 });
+        }
+
+        const referral = await attributeReferral(user, code);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Kode referral berhasil dipakai',
+            data: { id: referral.id, code: referral.code },
+        });
+    } catch (error) {
+        return handleError(error, 'Failed to apply referral code');
+    }
+});
@@ -1,38 +1,10 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { serializeEntitlements } from '@/lib/entitlements'
+import { withAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
 
-export async function GET(req: Request) {
+export const GET = withAuth(async (req, { user, entitlements }) => {
     try {
-        const supabase = createClient(
-            process.env.NEXT_PUBLIC_SUPABASE_URL!,
-            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-        )
-
-        const authHeader = req.headers.get('Authorization')
-        if (!authHeader) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-        const { data: { user }, error } = await supabase.auth.getUser(token)
-
-        if (error || !user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-        }
-
-        // Use service role for querying
-        const supabaseAdmin = createClient(
-            process.env.NEXT_PUBLIC_SUPABASE_URL!,
-            process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-            {
-                auth: {
-                    persistSession: false,
-                    autoRefreshToken: false,
-                    detectSessionInUrl: false
-                }
-            }
-        )
-
         // Get user subscription
         const { data: subscription } = await supabaseAdmin
             .from('user_subscriptions')
@@ -44,50 +16,53 @@ export async function GET(req: Request) {
             // Return free plan if no subscription exists
             return NextResponse.json({
                 plan_id: 'free',
-                plan_name: 'Free',
-                daily_limit: 25,
+                plan_name: entitlements.planName,
+                daily_limit: entitlements.plays,
                 daily_usage: 0,
                 expires_at: null,
-                is_expired: false
+                is_expired: false,
+                entitlements: serializeEntitlements(entitlements)
             })
         }
 
-        // Check if subscription has expired
-        const now = new Date()
-        const expiresAt = subscription.expires_at ? new Date(subscription.expires_at) : null
-        const isExpired = expiresAt && expiresAt < now && subscription.plan_id !== 'free'
-
-        if (isExpired) {
-            // Subscription has expired - downgrade to free
-            await supabaseAdmin
-                .from('user_subscriptions')
-                .update({
-                    plan_id: 'free',
-                    expires_at: null,
-                    updated_at: new Date().toISOString()
-                })
-                .eq('user_id', user.id)
-
-            console.log(`Subscription expired for user ${user.id}, downgraded to free plan`)
+        if (entitlements.expired) {
+            const ownPlanId = entitlements.viaFamily ? null : entitlements.planId
+            const nextPremium = !!ownPlanId && ownPlanId !== 'free'
 
             return NextResponse.json({
-                plan_id: 'free',
-                plan_name: 'Free',
-                daily_limit: 25,
+                plan_id: entitlements.planId,
+                plan_name: entitlements.planName,
+                daily_limit: entitlements.plays,
                 daily_usage: subscription.daily_usage || 0,
-                expires_at: null,
-                is_expired: true,
-                expired_from: subscription.plan_id
+                expires_at: entitlements.expiresAt,
+                is_expired: !nextPremium,
+                expired_from: subscription.plan_id,
+                scheduled_change: null,
+                cancel_at_period_end: nextPremium && !!subscription.cancel_at_period_end,
+                entitlements: serializeEntitlements(entitlements)
             })
         }
 
         return NextResponse.json({
             plan_id: subscription.plan_id,
             plan_name: subscription.plans?.name || subscription.plan_id,
-            daily_limit: subscription.plans?.daily_limit || 25,
+            daily_limit: entitlements.plays,
             daily_usage: subscription.daily_usage || 0,
             expires_at: subscription.expires_at,
-            is_expired: false
+            is_expired: false,
+            // Downgrade or prepaid plan that takes over when this period ends
+            scheduled_change: subscription.scheduled_plan_id ? {
+                plan_id: subscription.scheduled_plan_id,
+                effective_at: subscription.expires_at,
+                expires_at: subscription.scheduled_expires_at
+            } : null,
+            // Cancelled, premium ends at cancels_at
+            cancel_at_period_end: !!subscription.cancel_at_period_end,
+            cancels_at: subscription.cancel_at_period_end
+                ? subscription.scheduled_expires_at || subscription.expires_at
+                : null,
+            is_trial: !!subscription.is_trial,
+            entitlements: serializeEntitlements(entitlements)
         })
 
     } catch (error: unknown) {
@@ -99,4 +74,4 @@ export async function GET(req: Request) {
             daily_usage: 0
         })
     }
-}
+})
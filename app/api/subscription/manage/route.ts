@@ -1,42 +1,64 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
-
-// Helper to get authenticated user
-async function getAuthenticatedUser(request: NextRequest) {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return { user: null, error: 'Unauthorized' }
+import { NextResponse } from 'next/server'
+import { calculatePlanCharge, Plan } from '@/lib/plans'
+import { applyVoucherCode, VoucherError } from '@/lib/vouchers'
+import { applyUpgradeCredit, cancelAtPeriodEnd, downgradeToFree, isSubscriptionActive, resumeSubscription } from '@/lib/subscriptions'
+import { getEntitlements, serializeEntitlements } from '@/lib/entitlements'
+import { withAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// The plan the user is on after a downgrade
+async function currentPlanSummary(userId: string) {
+    const entitlements = await getEntitlements(userId)
+    return {
+        id: entitlements.planId,
+        name: entitlements.planName,
+        daily_limit: entitlements.plays
     }
+}
 
-    const token = authHeader.replace('Bearer ', '')
-    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-    const { data: { user }, error } = await supabaseClient.auth.getUser(token)
+// Cancel at the end of the paid period (DELETE)
+async function cancelSubscription(userId: string, planName: string) {
+    let effectiveAt: string | null
+    try {
+        ({ effectiveAt } = await cancelAtPeriodEnd(userId))
+    } catch (updateError) {
+        console.error('Cancel subscription error:', updateError)
+        return NextResponse.json({ error: 'Failed to cancel subscription' }, { status: 500 })
+    }
 
-    if (error || !user) {
-        return { user: null, error: 'Invalid token' }
+    if (!effectiveAt) {
+        return NextResponse.json({
+            success: true,
+            action: 'downgraded',
+            message: 'Langganan berhasil dibatalkan. Anda sekarang menggunakan paket Free.',
+            new_plan: await currentPlanSummary(userId)
+        })
     }
 
-    return { user, error: null, supabaseClient }
+    return NextResponse.json({
+        success: true,
+        action: 'cancel_scheduled',
+        message: `Langganan dibatalkan. Paket ${planName} tetap aktif hingga ${new Date(effectiveAt).toLocaleDateString('id-ID')}.`,
+        cancel_at_period_end: true,
+        cancels_at: effectiveAt
+    })
 }
 
 // GET - Get detailed subscription info
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user, entitlements }) => {
     try {
-        const { user, error, supabaseClient } = await getAuthenticatedUser(request)
-        if (error || !user || !supabaseClient) {
-            return NextResponse.json({ error }, { status: 401 })
-        }
-
         // Get subscription with plan details
-        const { data: subscription } = await supabaseClient
+        const { data: subscription } = await supabaseAdmin
             .from('user_subscriptions')
             .select(`
                 plan_id,
                 daily_usage,
                 last_reset_date,
+                expires_at,
+                scheduled_plan_id,
+                scheduled_expires_at,
+                cancel_at_period_end,
+                is_trial,
                 updated_at
             `)
             .eq('user_id', user.id)
@@ -44,24 +66,24 @@ export async function GET(request: NextRequest) {
 
         // Get plan details
         const planId = subscription?.plan_id || 'free'
-        const { data: plan } = await supabaseClient
+        const { data: plan } = await supabaseAdmin
             .from('plans')
             .select('*')
             .eq('id', planId)
             .single()
 
         // Get all available plans for comparison
-        const { data: allPlans } = await supabaseClient
+        const { data: allPlans } = await supabaseAdmin
             .from('plans')
             .select('*')
             .order('price', { ascending: true })
 
         // Get last transaction for this user
-        const { data: lastTransaction } = await supabaseClient
+        const { data: lastTransaction } = await supabaseAdmin
             .from('transactions')
             .select('*')
             .eq('user_id', user.id)
-            .eq('status', 'success')
+            .eq('status', 'SUCCESS')
             .order('created_at', { ascending: false })
             .limit(1)
             .single()
@@ -70,14 +92,28 @@ export async function GET(request: NextRequest) {
             subscription: {
                 plan_id: planId,
                 plan_name: plan?.name || 'Free',
-                daily_limit: plan?.daily_limit || 25,
+                daily_limit: entitlements.plays,
                 daily_usage: subscription?.daily_usage || 0,
                 price: plan?.price || 0,
                 features: plan?.features || [],
                 duration_type: plan?.duration_type || 'month',
                 duration_value: plan?.duration_value || 1,
+                expires_at: subscription?.expires_at || null,
+                scheduled_change: subscription?.scheduled_plan_id ? {
+                    plan_id: subscription.scheduled_plan_id,
+                    effective_at: subscription.expires_at,
+                    expires_at: subscription.scheduled_expires_at
+                } : null,
+                cancel_at_period_end: !!subscription?.cancel_at_period_end,
+                // When premium ends for a cancelled subscription (after any paid follow-up period)
+                cancels_at: subscription?.cancel_at_period_end
+                    ? subscription.scheduled_expires_at || subscription.expires_at
+                    : null,
+                // Free trial: nothing was paid, the plan drops to free at expires_at
+                is_trial: !!subscription?.is_trial,
                 updated_at: subscription?.updated_at || user.created_at,
-                is_premium: planId !== 'free'
+                is_premium: planId !== 'free',
+                entitlements: serializeEntitlements(entitlements)
             },
             lastPayment: lastTransaction ? {
                 amount: lastTransaction.amount,
@@ -91,25 +127,20 @@ export async function GET(request: NextRequest) {
         console.error('Subscription manage GET error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
 
 // PUT - Change subscription (upgrade/downgrade)
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request, { user }) => {
     try {
-        const { user, error, supabaseClient } = await getAuthenticatedUser(request)
-        if (error || !user || !supabaseClient) {
-            return NextResponse.json({ error }, { status: 401 })
-        }
-
         const body = await request.json()
-        const { new_plan_id } = body
+        const { new_plan_id, voucher_code } = body
 
         if (!new_plan_id) {
             return NextResponse.json({ error: 'Plan ID is required' }, { status: 400 })
         }
 
         // Validate plan exists
-        const { data: newPlan } = await supabaseClient
+        const { data: newPlan } = await supabaseAdmin
             .from('plans')
             .select('*')
             .eq('id', new_plan_id)
@@ -120,141 +151,172 @@ export async function PUT(request: NextRequest) {
         }
 
         // Get current subscription
-        const { data: currentSub } = await supabaseClient
+        const { data: currentSub } = await supabaseAdmin
             .from('user_subscriptions')
-            .select('plan_id')
+            .select('plan_id, expires_at, scheduled_expires_at, is_trial')
             .eq('user_id', user.id)
             .single()
 
         const currentPlanId = currentSub?.plan_id || 'free'
+        const running = isSubscriptionActive(currentSub)
+
+        // Renewing the current plan is a normal checkout, not a plan change.
+        // During a trial, buying the trialled plan is allowed and starts after it.
+        if (new_plan_id === currentPlanId && ((running && !currentSub?.is_trial) || currentPlanId === 'free')) {
+            return NextResponse.json({ error: 'Anda sudah menggunakan paket ini' }, { status: 400 })
+        }
 
         // Get current plan details
-        const { data: currentPlan } = await supabaseClient
+        const { data: currentPlan } = await supabaseAdmin
             .from('plans')
-            .select('price')
+            .select('name, price')
             .eq('id', currentPlanId)
             .single()
 
-        // If downgrade to free - apply immediately
-        if (new_plan_id === 'free') {
-            const { error: updateError } = await supabaseClient
-                .from('user_subscriptions')
-                .upsert({
-                    user_id: user.id,
-                    plan_id: 'free',
-                    daily_usage: 0,
-                    updated_at: new Date().toISOString()
-                }, { onConflict: 'user_id' })
-
-            if (updateError) {
-                console.error('Downgrade error:', updateError)
-                return NextResponse.json({ error: 'Failed to downgrade' }, { status: 500 })
-            }
-
-            return NextResponse.json({
-                success: true,
-                action: 'downgraded',
-                message: 'Berhasil beralih ke paket Free',
-                new_plan: {
-                    id: 'free',
-                    name: 'Free',
-                    daily_limit: 25
+        // Paid plan - redirect to checkout. Upgrades start right away, a
+        // cheaper plan starts when the current period ends.
+        if (newPlan.price > 0) {
+            const queued = running && (newPlan.price < (currentPlan?.price || 0) || new_plan_id === currentPlanId)
+
+            // Preview the discount and the credit for the unused part of the
+            // current plan so the checkout page shows the final price
+            let charge = calculatePlanCharge(newPlan as Plan)
+            if (voucher_code) {
+                try {
+                    charge = await applyVoucherCode(charge, voucher_code, user.id)
+                } catch (voucherError) {
+                    if (voucherError instanceof VoucherError) {
+                        return NextResponse.json({ error: voucherError.message, code: voucherError.code }, { status: voucherError.status })
+                    }
+                    throw voucherError
                 }
-            })
-        }
+            }
+            charge = await applyUpgradeCredit(charge, user.id)
 
-        // If upgrade (paid plan) - need to redirect to checkout
-        if (newPlan.price > (currentPlan?.price || 0)) {
             return NextResponse.json({
                 success: true,
                 action: 'redirect_checkout',
-                message: 'Silakan lanjutkan ke pembayaran',
+                message: queued
+                    ? 'Silakan lanjutkan ke pembayaran. Paket ini aktif setelah paket Anda saat ini berakhir'
+                    : 'Silakan lanjutkan ke pembayaran',
+                // As in grantPlan: the same plan extends the current period, a
+                // cheaper one starts after any follow-up period already queued
+                starts_at: queued
+                    ? new_plan_id === currentPlanId
+                        ? currentSub!.expires_at
+                        : currentSub!.scheduled_expires_at || currentSub!.expires_at
+                    : null,
                 checkout_params: {
                     plan: new_plan_id,
                     name: newPlan.name,
-                    price: newPlan.price.toString()
+                    price: charge.amount.toString(),
+                    original_price: charge.subtotal.toString(),
+                    discount: charge.discount,
+                    credit: charge.credit,
+                    voucher_code: charge.voucher?.code || null
                 }
             })
         }
 
-        // Downgrade to lower paid plan - apply immediately (no refund logic for simplicity)
-        const { error: updateError } = await supabaseClient
-            .from('user_subscriptions')
-            .upsert({
-                user_id: user.id,
-                plan_id: new_plan_id,
-                daily_usage: 0,
-                updated_at: new Date().toISOString()
-            }, { onConflict: 'user_id' })
-
-        if (updateError) {
-            console.error('Plan change error:', updateError)
-            return NextResponse.json({ error: 'Failed to change plan' }, { status: 500 })
+        // Downgrade to free - keep what was paid for until the period ends.
+        // Answers with the 'scheduled' contract this endpoint has always had
+        // for downgrades; DELETE is the cancel endpoint proper.
+        if (running) {
+            let effectiveAt: string | null
+            try {
+                ({ effectiveAt } = await cancelAtPeriodEnd(user.id))
+            } catch (updateError) {
+                console.error('Plan change error:', updateError)
+                return NextResponse.json({ error: 'Failed to change plan' }, { status: 500 })
+            }
+
+            if (effectiveAt) {
+                return NextResponse.json({
+                    success: true,
+                    action: 'scheduled',
+                    message: `Paket ${newPlan.name} aktif mulai ${new Date(effectiveAt).toLocaleDateString('id-ID')}`,
+                    effective_at: effectiveAt,
+                    new_plan: {
+                        id: new_plan_id,
+                        name: newPlan.name,
+                        daily_limit: newPlan.daily_limit
+                    },
+                    cancel_at_period_end: true,
+                    cancels_at: effectiveAt
+                })
+            }
+        }
+
+        try {
+            await downgradeToFree(user.id, { resetUsage: true })
+        } catch (updateError) {
+            console.error('Downgrade error:', updateError)
+            return NextResponse.json({ error: 'Failed to downgrade' }, { status: 500 })
         }
 
         return NextResponse.json({
             success: true,
-            action: 'changed',
-            message: `Berhasil beralih ke paket ${newPlan.name}`,
-            new_plan: {
-                id: new_plan_id,
-                name: newPlan.name,
-                daily_limit: newPlan.daily_limit
-            }
+            action: 'downgraded',
+            message: 'Berhasil beralih ke paket Free',
+            new_plan: await currentPlanSummary(user.id)
         })
 
     } catch (error) {
         console.error('Subscription manage PUT error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
 
-// DELETE - Cancel subscription (downgrade to free)
-export async function DELETE(request: NextRequest) {
+// DELETE - Cancel subscription at the end of the paid period
+export const DELETE = withAuth(async (request, { user }) => {
     try {
-        const { user, error, supabaseClient } = await getAuthenticatedUser(request)
-        if (error || !user || !supabaseClient) {
-            return NextResponse.json({ error }, { status: 401 })
-        }
-
         // Get current subscription
-        const { data: currentSub } = await supabaseClient
+        const { data: currentSub } = await supabaseAdmin
             .from('user_subscriptions')
-            .select('plan_id')
+            .select('plan_id, expires_at, cancel_at_period_end, plans(name)')
             .eq('user_id', user.id)
             .single()
 
-        if (!currentSub || currentSub.plan_id === 'free') {
+        if (!currentSub || !isSubscriptionActive(currentSub)) {
             return NextResponse.json({ error: 'No active premium subscription' }, { status: 400 })
         }
 
-        // Downgrade to free
-        const { error: updateError } = await supabaseClient
-            .from('user_subscriptions')
-            .update({
-                plan_id: 'free',
-                daily_usage: 0,
-                updated_at: new Date().toISOString()
-            })
-            .eq('user_id', user.id)
+        if (currentSub.cancel_at_period_end) {
+            return NextResponse.json({ error: 'Subscription is already cancelled' }, { status: 409 })
+        }
+
+        const plan = currentSub.plans as unknown as { name: string } | null
+        return cancelSubscription(user.id, plan?.name || currentSub.plan_id)
 
-        if (updateError) {
-            console.error('Cancel subscription error:', updateError)
-            return NextResponse.json({ error: 'Failed to cancel subscription' }, { status: 500 })
+    } catch (error) {
+        console.error('Subscription manage DELETE error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// PATCH - Undo a pending cancellation
+export const PATCH = withAuth(async (request, { user }) => {
+    try {
+        let resumed: boolean
+        try {
+            resumed = await resumeSubscription(user.id)
+        } catch (updateError) {
+            console.error('Resume subscription error:', updateError)
+            return NextResponse.json({ error: 'Failed to resume subscription' }, { status: 500 })
+        }
+
+        if (!resumed) {
+            return NextResponse.json({ error: 'No pending cancellation' }, { status: 400 })
         }
 
         return NextResponse.json({
             success: true,
-            message: 'Langganan berhasil dibatalkan. Anda sekarang menggunakan paket Free.',
-            new_plan: {
-                id: 'free',
-                name: 'Free',
-                daily_limit: 25
-            }
+            message: 'Pembatalan langganan dibatalkan. Paket Anda tetap aktif.',
+            cancel_at_period_end: false
         })
 
     } catch (error) {
-        console.error('Subscription manage DELETE error:', error)
+        console.error('Subscription manage PATCH error:', error)
         return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
-}
+})
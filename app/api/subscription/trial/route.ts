@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getTrialEligibility, planTrialDays, startTrial, TrialError } from '@/lib/trials'
+import { Plan } from '@/lib/plans'
+import { withAuth } from '@/lib/auth'
+
+// GET - Whether the user can still start a free trial, and which plans offer one
+export const GET = withAuth(async (request, { user }) => {
+    try {
+        const { eligible, reason } = await getTrialEligibility(user)
+
+        const { data: plans } = await supabaseAdmin
+            .from('plans')
+            .select('*')
+            .gt('trial_days', 0)
+            .order('price', { ascending: true })
+
+        return NextResponse.json({
+            eligible,
+            reason,
+            plans: ((plans || []) as Plan[])
+                .filter(plan => planTrialDays(plan) > 0)
+                .map(plan => ({
+                    id: plan.id,
+                    name: plan.name,
+                    price: plan.price,
+                    trial_days: planTrialDays(plan)
+                }))
+        })
+
+    } catch (error) {
+        console.error('Trial eligibility error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
+
+// POST - Start a free trial of a plan, no payment needed
+export const POST = withAuth(async (request, { user }) => {
+    try {
+        const { plan_id } = await request.json()
+        if (!plan_id) {
+            return NextResponse.json({ error: 'Plan ID is required' }, { status: 400 })
+        }
+
+        const { plan, period } = await startTrial(user, plan_id)
+
+        return NextResponse.json({
+            success: true,
+            message: `Free trial ${plan.name} aktif hingga ${new Date(period.expiresAt!).toLocaleDateString('id-ID')}`,
+            subscription: {
+                plan_id: plan.id,
+                plan_name: plan.name,
+                daily_limit: plan.daily_limit,
+                expires_at: period.expiresAt,
+                is_trial: true
+            }
+        })
+
+    } catch (error) {
+        if (error instanceof TrialError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+
+        console.error('Start trial error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+})
@@ -1,5 +1,6 @@
 // app/api/synced-lyrics/route.ts
 import { NextResponse } from 'next/server';
+import { withOptionalAuth } from '@/lib/auth';
 
 // Tipe untuk setiap baris lirik yang sudah diparsing
 type LyricLine = {
@@ -30,8 +31,7 @@ function parseLRC(lrcContent: string): LyricLine[] {
   return lyrics;
 }
 
-
-export async function GET(req: Request) {
+export const GET = withOptionalAuth(async (req, { entitlements }) => {
   const { searchParams } = new URL(req.url);
   const artist_name = searchParams.get('artist');
   const track_name = searchParams.get('title');
@@ -42,6 +42,14 @@ export async function GET(req: Request) {
   }
 
   try {
+    // Guests get what the free plan allows
+    if (!entitlements.lyrics) {
+      return NextResponse.json(
+        { lyrics: null, message: `Lirik tidak tersedia di paket ${entitlements.planName}. Upgrade untuk melihat lirik!` },
+        { status: 403 }
+      );
+    }
+
     const url = `https://lrclib.net/api/get?artist_name=${encodeURIComponent(artist_name)}&track_name=${encodeURIComponent(track_name)}&album_name=&duration=${duration}`;
     const response = await fetch(url);
 
@@ -66,4 +74,4 @@ export async function GET(req: Request) {
     console.error("Error di API lirik:", error);
     return NextResponse.json({ lyrics: null, message: "Gagal memuat lirik." }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
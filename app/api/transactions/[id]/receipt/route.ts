@@ -0,0 +1,34 @@
+// app/api/transactions/[id]/receipt/route.ts
+import { NextResponse } from 'next/server';
+import { getReceipt, renderReceiptHtml } from '@/lib/receipts';
+import { withAuth } from '@/lib/auth';
+
+// GET - Receipt of one of the caller's transactions, as HTML (default,
+// printable to PDF from the browser) or JSON with ?format=json
+export const GET = withAuth<{ params: Promise<{ id: string }> }>(async (request, { user }, { params }) => {
+    try {
+        const { id } = await params;
+
+        const receipt = await getReceipt(id, user.id);
+        if (!receipt) {
+            return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        if (searchParams.get('format') === 'json') {
+            return NextResponse.json({ success: true, data: receipt });
+        }
+
+        return new NextResponse(renderReceiptHtml(receipt), {
+            headers: {
+                'Content-Type': 'text/html; charset=utf-8',
+                ...(searchParams.get('download') === '1' && {
+                    'Content-Disposition': `attachment; filename="kwitansi-${receipt.number}.html"`,
+                }),
+            },
+        });
+    } catch (error) {
+        console.error('Receipt API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+});
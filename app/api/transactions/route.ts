@@ -0,0 +1,89 @@
+// app/api/transactions/route.ts
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+
+const STATUSES = ['PENDING', 'SUCCESS', 'EXPIRED', 'FAILED', 'REFUNDED'];
+
+// GET - List the caller's transactions, newest first
+export const GET = withAuth(async (request, { user }) => {
+    try {
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+        const offset = parseInt(searchParams.get('offset') || '0');
+        const status = searchParams.get('status')?.toUpperCase();
+
+        if (status && !STATUSES.includes(status)) {
+            return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+        }
+
+        let query = supabaseAdmin
+            .from('transactions')
+            .select(`
+                id,
+                status,
+                plan_id,
+                quantity,
+                subtotal,
+                discount,
+                proration_credit,
+                amount,
+                fee_customer,
+                payment_method,
+                payment_name,
+                payment_reference,
+                period_start,
+                period_end,
+                created_at,
+                paid_at,
+                expired_at,
+                plans(name)
+            `, { count: 'exact' })
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        if (status) query = query.eq('status', status);
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            console.error('Error fetching transactions:', error);
+            return NextResponse.json({ error: 'Failed to fetch transactions' }, { status: 500 });
+        }
+
+        const transactions = (data || []).map(({ plans, ...transaction }) => ({
+            id: transaction.id,
+            status: transaction.status,
+            planId: transaction.plan_id,
+            planName: (plans as unknown as { name: string } | null)?.name || transaction.plan_id,
+            quantity: transaction.quantity || 1,
+            channel: transaction.payment_method,
+            channelName: transaction.payment_name || transaction.payment_method,
+            reference: transaction.payment_reference,
+            subtotal: transaction.subtotal ?? transaction.amount,
+            discount: transaction.discount || 0,
+            credit: transaction.proration_credit || 0,
+            amount: transaction.amount,
+            fee: transaction.fee_customer || 0,
+            total: transaction.amount + (transaction.fee_customer || 0),
+            periodStart: transaction.period_start,
+            periodEnd: transaction.period_end,
+            createdAt: transaction.created_at,
+            paidAt: transaction.paid_at,
+            expiredAt: transaction.expired_at,
+            receiptUrl: `/api/transactions/${transaction.id}/receipt`,
+        }));
+
+        return NextResponse.json({
+            success: true,
+            data: transactions,
+            total: count || 0,
+            limit,
+            offset,
+        });
+    } catch (error) {
+        console.error('Transactions API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+});
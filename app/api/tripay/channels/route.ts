@@ -1,36 +1,78 @@
 // app/api/tripay/channels/route.ts
 import { NextResponse } from 'next/server';
-import { getPaymentChannels } from '@/lib/tripay';
+import { withOptionalAuth } from '@/lib/auth';
+import { calculatePlanCharge, getPlan, PlanCharge, PlanChargeError } from '@/lib/plans';
+import { applyVoucherCode, VoucherError } from '@/lib/vouchers';
+import { applyUpgradeCredit } from '@/lib/subscriptions';
+import { getActiveChannels, groupChannels, quoteChannels } from '@/lib/payment-channels';
 
-export async function GET() {
+// GET - Active payment channels, grouped. With ?planId (and optionally
+// quantity and voucherCode) every channel also gets the customer fee and the
+// grand total for that plan. Signed-in users get their upgrade credit and
+// voucher applied, so the totals match what create-payment will charge.
+export const GET = withOptionalAuth(async (request, { user }) => {
     try {
-        const channels = await getPaymentChannels();
+        const { searchParams } = new URL(request.url);
+        const planId = searchParams.get('planId');
+        const quantity = Number(searchParams.get('quantity') || '1');
+        const voucherCode = searchParams.get('voucherCode');
 
-        // Filter only active channels and group by type
-        const activeChannels = channels.filter(ch => ch.active);
+        let charge: PlanCharge | null = null;
+        if (planId) {
+            const plan = await getPlan(planId);
+            if (!plan) {
+                return NextResponse.json({ error: 'Invalid plan' }, { status: 400 });
+            }
 
-        // Group channels
-        const grouped = {
-            virtual_account: activeChannels.filter(ch => ch.group === 'Virtual Account'),
-            ewallet: activeChannels.filter(ch => ch.group === 'E-Wallet'),
-            convenience_store: activeChannels.filter(ch => ch.group === 'Convenience Store'),
-            others: activeChannels.filter(ch =>
-                !['Virtual Account', 'E-Wallet', 'Convenience Store'].includes(ch.group)
-            ),
-        };
+            charge = calculatePlanCharge(plan, quantity);
+
+            if (user) {
+                if (voucherCode) {
+                    charge = await applyVoucherCode(charge, voucherCode, user.id);
+                }
+                charge = await applyUpgradeCredit(charge, user.id);
+            }
+        }
+
+        const { channels, fetchedAt } = await getActiveChannels();
+        const quoted = quoteChannels(channels, charge?.amount);
+        const groups = groupChannels(quoted);
+        const byKey = (key: string) => groups.find(group => group.key === key)?.channels || [];
 
         return NextResponse.json({
             success: true,
             data: {
-                channels: activeChannels,
-                grouped,
+                channels: quoted,
+                groups,
+                grouped: {
+                    virtual_account: byKey('virtual_account'),
+                    ewallet: byKey('ewallet'),
+                    retail: byKey('retail'),
+                    convenience_store: byKey('retail'), // old key, kept for existing clients
+                    others: byKey('others'),
+                },
+                charge: charge && {
+                    planId: charge.plan.id,
+                    planName: charge.plan.name,
+                    quantity: charge.quantity,
+                    subtotal: charge.subtotal,
+                    discount: charge.discount,
+                    credit: charge.credit,
+                    voucherCode: charge.voucher?.code || null,
+                    amount: charge.amount,
+                },
+                cachedAt: fetchedAt,
             },
         });
     } catch (error) {
+        if (error instanceof PlanChargeError || error instanceof VoucherError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+
         console.error('Get channels error:', error);
         return NextResponse.json(
             { error: error instanceof Error ? error.message : 'Failed to get payment channels' },
             { status: 500 }
         );
     }
-}
+});
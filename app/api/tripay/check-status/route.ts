@@ -1,9 +1,10 @@
 // app/api/tripay/check-status/route.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { getTransactionDetail } from '@/lib/tripay';
-import { supabase } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { getPaymentGateway } from '@/lib/payments';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
     try {
         const { searchParams } = new URL(request.url);
         const reference = searchParams.get('reference');
@@ -16,55 +17,56 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // Check from database first
-        if (merchantRef) {
-            const { data: dbTransaction, error } = await supabase
-                .from('transactions')
-                .select('*')
-                .eq('id', merchantRef)
-                .single();
+        // Only the owner of the transaction may see its payment details
+        let lookup = supabaseAdmin
+            .from('transactions')
+            .select('*')
+            .eq('user_id', user.id);
+        lookup = merchantRef ? lookup.eq('id', merchantRef) : lookup.eq('payment_reference', reference!);
 
-            if (dbTransaction && !error) {
-                return NextResponse.json({
-                    success: true,
-                    data: {
-                        reference: dbTransaction.payment_reference,
-                        merchantRef: dbTransaction.id,
-                        status: dbTransaction.status,
-                        amount: dbTransaction.amount,
-                        payCode: dbTransaction.pay_code,
-                        payUrl: dbTransaction.pay_url,
-                        checkoutUrl: dbTransaction.checkout_url,
-                        qrUrl: dbTransaction.qr_url,
-                        expiredAt: dbTransaction.expired_at,
-                        paidAt: dbTransaction.paid_at,
-                    },
-                });
-            }
-        }
+        const { data: dbTransaction, error } = await lookup.maybeSingle();
 
-        // If not found in DB or need fresh data, check Tripay
-        if (reference) {
-            const transaction = await getTransactionDetail(reference);
+        if (error) throw error;
+        if (!dbTransaction) {
+            return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+        }
 
+        if (merchantRef) {
             return NextResponse.json({
                 success: true,
                 data: {
-                    reference: transaction.reference,
-                    merchantRef: transaction.merchant_ref,
-                    status: transaction.status,
-                    amount: transaction.amount,
-                    payCode: transaction.pay_code,
-                    payUrl: transaction.pay_url,
-                    checkoutUrl: transaction.checkout_url,
-                    qrUrl: transaction.qr_url,
-                    expiredTime: transaction.expired_time,
-                    instructions: transaction.instructions,
+                    reference: dbTransaction.payment_reference,
+                    merchantRef: dbTransaction.id,
+                    status: dbTransaction.status,
+                    amount: dbTransaction.amount,
+                    payCode: dbTransaction.pay_code,
+                    payUrl: dbTransaction.pay_url,
+                    checkoutUrl: dbTransaction.checkout_url,
+                    qrUrl: dbTransaction.qr_url,
+                    expiredAt: dbTransaction.expired_at,
+                    paidAt: dbTransaction.paid_at,
                 },
             });
         }
 
-        return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+        // Fresh data from the gateway
+        const transaction = await getPaymentGateway().getTransactionDetail(dbTransaction.payment_reference);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                reference: transaction.reference,
+                merchantRef: transaction.merchant_ref,
+                status: transaction.status,
+                amount: transaction.amount,
+                payCode: transaction.pay_code,
+                payUrl: transaction.pay_url,
+                checkoutUrl: transaction.checkout_url,
+                qrUrl: transaction.qr_url,
+                expiredTime: transaction.expired_time,
+                instructions: transaction.instructions,
+            },
+        });
     } catch (error) {
         console.error('Check status error:', error);
         return NextResponse.json(
@@ -72,4 +74,4 @@ export async function GET(request: NextRequest) {
             { status: 500 }
         );
     }
-}
+});
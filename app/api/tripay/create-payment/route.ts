@@ -1,76 +1,81 @@
 // app/api/tripay/create-payment/route.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { createTransaction } from '@/lib/tripay';
-import { supabase } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { calculatePlanCharge, getPlan, PlanChargeError } from '@/lib/plans';
+import { applyVoucherCode, VoucherError } from '@/lib/vouchers';
+import { createCheckout } from '@/lib/checkout';
+import { applyUpgradeCredit } from '@/lib/subscriptions';
+import { getActiveChannels } from '@/lib/payment-channels';
+import { withAuth } from '@/lib/auth';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
     try {
         const body = await request.json();
         const {
             planId,
-            planName,
             amount,
+            quantity = 1,
+            voucherCode,
             paymentMethod,
             userId,
-            userEmail,
             userName
         } = body;
 
-        if (!planId || !amount || !paymentMethod || !userId || !userEmail) {
+        if (!planId || !paymentMethod) {
             return NextResponse.json(
                 { error: 'Missing required fields' },
                 { status: 400 }
             );
         }
 
-        // Generate unique merchant reference
-        const merchantRef = `BEATLY-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+        // userId is optional now, but if the client sends one it must be the caller
+        if (userId && userId !== user.id) {
+            return NextResponse.json({ error: 'User mismatch' }, { status: 403 });
+        }
 
-        // Create transaction in Tripay
-        const callbackUrl = `${process.env.NEXT_PUBLIC_API_URL || process.env.VERCEL_URL || 'http://localhost:3001'}/api/tripay/callback`;
-        const returnUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/thank-you?ref=${merchantRef}`;
+        if (!user.email) {
+            return NextResponse.json({ error: 'User has no email' }, { status: 400 });
+        }
 
-        const transaction = await createTransaction({
-            method: paymentMethod,
-            merchantRef,
-            amount,
-            customerName: userName || 'Beatly User',
-            customerEmail: userEmail,
-            orderItems: [
-                {
-                    name: planName || 'Beatly Premium',
-                    price: amount,
-                    quantity: 1,
-                },
-            ],
-            callbackUrl,
-            returnUrl,
-            expiredTime: 24 * 60 * 60, // 24 hours
-        });
+        const plan = await getPlan(planId);
+        if (!plan) {
+            return NextResponse.json({ error: 'Invalid plan' }, { status: 400 });
+        }
 
-        // Save transaction to database
-        const { error: dbError } = await supabase.from('transactions').insert({
-            id: merchantRef,
-            user_id: userId,
-            plan_id: planId,
-            amount,
-            payment_method: paymentMethod,
-            payment_reference: transaction.reference,
-            status: 'PENDING',
-            pay_code: transaction.pay_code,
-            pay_url: transaction.pay_url,
-            checkout_url: transaction.checkout_url,
-            qr_url: transaction.qr_url || null,
-            qr_string: transaction.qr_string || null,
-            expired_at: new Date(transaction.expired_time * 1000).toISOString(),
-            created_at: new Date().toISOString(),
-        });
+        const { channels } = await getActiveChannels();
+        if (!channels.some(ch => ch.code === paymentMethod)) {
+            return NextResponse.json({ error: 'Payment method is not available' }, { status: 400 });
+        }
+
+        // Price is computed server-side from the plans table
+        let charge = calculatePlanCharge(plan, Number(quantity));
+        if (voucherCode) {
+            charge = await applyVoucherCode(charge, voucherCode, user.id);
+        }
+        // Upgrades are discounted by the unused value of the current plan
+        charge = await applyUpgradeCredit(charge, user.id);
 
-        if (dbError) {
-            console.error('Database error:', dbError);
-            // Continue anyway, transaction is created in Tripay
+        // Reject tampered amounts instead of silently correcting them
+        if (amount !== undefined && Number(amount) !== charge.amount) {
+            console.warn('Amount mismatch on create-payment:', {
+                userId: user.id,
+                planId,
+                sent: amount,
+                expected: charge.amount
+            });
+            return NextResponse.json(
+                { error: 'Amount does not match plan price', expected: charge.amount },
+                { status: 400 }
+            );
         }
 
+        const { merchantRef, transaction } = await createCheckout({
+            userId: user.id,
+            customerName: userName || user.user_metadata?.full_name || 'Beatly User',
+            customerEmail: user.email,
+            paymentMethod,
+            charge,
+        });
+
         return NextResponse.json({
             success: true,
             data: {
@@ -81,6 +86,13 @@ export async function POST(request: NextRequest) {
                 checkoutUrl: transaction.checkout_url,
                 qrUrl: transaction.qr_url,
                 qrString: transaction.qr_string,
+                planId: plan.id,
+                planName: plan.name,
+                quantity: charge.quantity,
+                subtotal: charge.subtotal,
+                discount: charge.discount,
+                credit: charge.credit,
+                voucherCode: charge.voucher?.code || null,
                 amount: transaction.amount,
                 fee: transaction.total_fee,
                 total: transaction.amount + transaction.total_fee,
@@ -90,10 +102,14 @@ export async function POST(request: NextRequest) {
             },
         });
     } catch (error) {
+        if (error instanceof PlanChargeError || error instanceof VoucherError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+
         console.error('Create payment error:', error);
         return NextResponse.json(
             { error: error instanceof Error ? error.message : 'Failed to create payment' },
             { status: 500 }
         );
     }
-}
+});
@@ -1,38 +1,11 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-export async function GET(req: Request) {
-    const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    )
-
-    const supabaseAdmin = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-        {
-            auth: {
-                persistSession: false,
-                autoRefreshToken: false,
-                detectSessionInUrl: false
-            }
-        }
-    )
-
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error } = await supabase.auth.getUser(token)
-
-    if (error || !user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+import { checkQuota } from '@/lib/quota'
+import { withAuth } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
 
+export const GET = withAuth(async (req, { user }) => {
     // Use RPC to ensure subscription exists (bypassing RLS issues)
-    const { data: subscription, error: subError } = await supabase
+    const { data: subscription, error: subError } = await supabaseAdmin
         .rpc('ensure_user_subscription', { target_user_id: user.id })
 
     if (subError || !subscription) {
@@ -40,92 +13,51 @@ export async function GET(req: Request) {
         return NextResponse.json({ allowed: false, message: 'Subscription error' })
     }
 
-    // Check if subscription has expired
-    const now = new Date()
-    const expiresAt = subscription.expires_at ? new Date(subscription.expires_at) : null
-    const isExpired = expiresAt && expiresAt < now && subscription.plan_id !== 'free'
-
-    let effectivePlanId = subscription.plan_id
-
-    if (isExpired) {
-        // Subscription has expired - downgrade to free
-        await supabaseAdmin
-            .from('user_subscriptions')
-            .update({
-                plan_id: 'free',
-                expires_at: null,
-                updated_at: new Date().toISOString()
-            })
-            .eq('user_id', user.id)
-
-        console.log(`Subscription expired for user ${user.id}, downgraded to free plan`)
-        effectivePlanId = 'free'
+    // Moves a lapsed subscription on and applies a family plan
+    let quota
+    try {
+        quota = await checkQuota(user.id, 'plays')
+    } catch (quotaError) {
+        console.error('Error checking play quota:', quotaError)
+        return NextResponse.json({ allowed: false, message: 'Plan error' })
     }
 
-    // Fetch plan details for the effective plan
-    const { data: planData, error: planError } = await supabase
-        .from('plans')
-        .select('daily_limit')
-        .eq('id', effectivePlanId)
-        .single()
-
-    if (planError || !planData) {
-        return NextResponse.json({ allowed: false, message: 'Plan error' })
+    const details = {
+        currentUsage: quota.used,
+        limit: quota.limit,
+        unlimited: quota.unlimited,
+        is_expired: quota.expired,
+        effective_plan: quota.planId,
+        via_family: quota.viaFamily,
+        // Next midnight in the user's timezone, for the client's countdown
+        resets_at: quota.resetsAt,
+        // Bonus plays usable once the daily allowance is used up
+        credits: quota.credits
     }
 
-    const limit = planData.daily_limit
+    if (quota.unlimited) {
+        return NextResponse.json({ allowed: true, remaining: -1, ...details })
+    }
 
-    // Handle unlimited (-1)
-    if (limit === -1) {
+    // At the limit, further plays are paid for with bonus credits
+    if (quota.remaining === 0 && quota.credits > 0) {
         return NextResponse.json({
             allowed: true,
-            remaining: -1,
-            limit: -1,
-            currentUsage: subscription.daily_usage || 0,
-            unlimited: true,
-            is_expired: isExpired,
-            effective_plan: effectivePlanId
+            message: `Batas harian tercapai. Lagu berikutnya memakai kredit bonus (sisa ${quota.credits}).`,
+            remaining: 0,
+            ...details
         })
     }
 
-    const today = new Date().toISOString().split('T')[0]
-    const lastReset = subscription.last_reset_date
-    let currentUsage = subscription.daily_usage || 0
-
-    // Reset if new day
-    if (lastReset !== today) {
-        await supabase
-            .from('user_subscriptions')
-            .update({ daily_usage: 0, last_reset_date: today })
-            .eq('user_id', user.id)
-        currentUsage = 0
-    }
-
-    // Check if user can play more songs
     // If currentUsage >= limit, they are at limit and cannot play more
-    const canPlay = currentUsage < limit
-    const remaining = Math.max(0, limit - currentUsage)
-
-    if (!canPlay) {
+    if (quota.remaining === 0) {
         return NextResponse.json({
             allowed: false,
-            message: `Batas harian ${limit} lagu tercapai. Upgrade untuk lanjut mendengarkan!`,
+            message: `Batas harian ${quota.limit} lagu tercapai. Upgrade untuk lanjut mendengarkan!`,
             remaining: 0,
-            currentUsage,
-            limit,
-            unlimited: false,
-            is_expired: isExpired,
-            effective_plan: effectivePlanId
+            ...details
         })
     }
 
-    return NextResponse.json({
-        allowed: true,
-        remaining,
-        currentUsage,
-        limit,
-        unlimited: false,
-        is_expired: isExpired,
-        effective_plan: effectivePlanId
-    })
-}
+    return NextResponse.json({ allowed: true, remaining: quota.remaining, ...details })
+})
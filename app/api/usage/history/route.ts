@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getUserTimeZone, localDay } from '@/lib/timezone'
+import { withAuth } from '@/lib/auth'
+
+const HISTORY_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET - Plays, skips and AI generations counted per day over the last 30
+// days (in the user's timezone). With ?date=YYYY-MM-DD, the individual
+// ledger entries of that day, e.g. to look into a complaint.
+export const GET = withAuth(async (req, { user, entitlements }) => {
+
+    const now = new Date()
+    const timezone = await getUserTimeZone(user.id, now)
+    const today = localDay(now, timezone)
+    const from = localDay(new Date(now.getTime() - (HISTORY_DAYS - 1) * DAY_MS), timezone)
+    const date = new URL(req.url).searchParams.get('date')
+
+    if (date) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date < from || date > today) {
+            return NextResponse.json({ error: `date must be one of the last ${HISTORY_DAYS} days (YYYY-MM-DD)` }, { status: 400 })
+        }
+
+        const { data: events, error: eventsError } = await supabaseAdmin
+            .from('usage_events')
+            .select('kind, track_id, video_id, client, plan_id, created_at')
+            .eq('user_id', user.id)
+            .eq('day', date)
+            .order('created_at', { ascending: true })
+            .limit(1000)
+
+        if (eventsError) {
+            console.error('Error fetching usage events:', eventsError)
+            return NextResponse.json({ error: 'Failed to fetch usage history' }, { status: 500 })
+        }
+
+        return NextResponse.json({ date, timezone, events: events || [] })
+    }
+
+    const { data: rows, error: historyError } = await supabaseAdmin
+        .rpc('usage_history', { p_user_id: user.id, p_from: from })
+
+    if (historyError) {
+        console.error('Error fetching usage history:', historyError)
+        return NextResponse.json({ error: 'Failed to fetch usage history' }, { status: 500 })
+    }
+
+    // One entry per day, newest first, including days without usage
+    const counts = new Map<string, { plays: number; skips: number; ai_generations: number }>()
+    for (let i = 0; i < HISTORY_DAYS; i++) {
+        const day = localDay(new Date(now.getTime() - i * DAY_MS), timezone)
+        if (day >= from) counts.set(day, { plays: 0, skips: 0, ai_generations: 0 })
+    }
+    for (const row of (rows || []) as Array<{ day: string; kind: string; count: number }>) {
+        const day = counts.get(row.day)
+        if (day && row.kind in day) {
+            day[row.kind as keyof typeof day] = row.count
+        }
+    }
+
+    return NextResponse.json({
+        timezone,
+        from,
+        to: today,
+        // Today's limits, for comparison (-1 is unlimited)
+        limits: {
+            plays: entitlements.plays,
+            skips: entitlements.skips,
+            ai_generations: entitlements.aiGenerations
+        },
+        days: [...counts.entries()].map(([day, usage]) => ({ date: day, ...usage }))
+    })
+})
@@ -1,138 +1,78 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { consumeQuota } from '@/lib/quota'
+import { withAuth } from '@/lib/auth'
 
-export async function POST(req: Request) {
-    const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    )
+// Superseded by POST /api/play/authorize, which also hands out the play
+// grant. Counting plays without a grant trusts the client, so this only
+// works while LEGACY_USAGE_INCREMENT=true is set for older clients.
+export const POST = withAuth(async (req, { user }) => {
 
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (process.env.LEGACY_USAGE_INCREMENT !== 'true') {
+        return NextResponse.json({
+            error: 'Endpoint ini sudah tidak dipakai. Gunakan POST /api/play/authorize',
+            code: 'DEPRECATED'
+        }, { status: 410 })
     }
 
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error } = await supabase.auth.getUser(token)
-
-    if (error || !user) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Track the play is for, recorded in the usage ledger (optional for older clients)
+    const body = await req.json().catch(() => ({}))
+    const details = {
+        trackId: typeof body?.track_id === 'string' ? body.track_id : null,
+        client: typeof body?.client === 'string' ? body.client : req.headers.get('user-agent')
     }
 
-    // Fetch subscription with plan info
-    const { data: subscription } = await supabase
-        .from('user_subscriptions')
-        .select('daily_usage, plan_id, last_reset_date')
-        .eq('user_id', user.id)
-        .single()
-
-    const today = new Date().toISOString().split('T')[0]
-    const planId = subscription?.plan_id || 'free'
-    let currentUsageBeforePlay = subscription?.daily_usage || 0
-    const needsReset = !subscription || subscription.last_reset_date !== today
-
-    // If new day, reset usage
-    if (needsReset) {
-        currentUsageBeforePlay = 0
+    // Check and count the play in one step; at the limit nothing is counted
+    let quota
+    try {
+        quota = await consumeQuota(user.id, 'plays', details)
+    } catch (quotaError) {
+        console.error('Error consuming play quota:', quotaError)
+        return NextResponse.json({ error: 'Failed to update usage' }, { status: 500 })
     }
 
-    // Get plan limit FIRST
-    const { data: planData } = await supabase
-        .from('plans')
-        .select('daily_limit')
-        .eq('id', planId)
-        .single()
-
-    const limit = planData?.daily_limit ?? 10
-
-    // Handle unlimited (-1)
-    if (limit === -1) {
-        // Still track usage for analytics, but always allow
-        const newUsage = currentUsageBeforePlay + 1
-
-        if (subscription) {
-            await supabase
-                .from('user_subscriptions')
-                .update({
-                    daily_usage: needsReset ? 1 : newUsage,
-                    last_reset_date: today
-                })
-                .eq('user_id', user.id)
-        } else {
-            await supabase
-                .from('user_subscriptions')
-                .insert({
-                    user_id: user.id,
-                    plan_id: 'free',
-                    daily_usage: 1,
-                    last_reset_date: today
-                })
-        }
-
+    if (quota.unlimited) {
         return NextResponse.json({
             success: true,
-            currentUsage: needsReset ? 1 : newUsage,
+            currentUsage: quota.used,
             limit: -1,
             remaining: -1,
             allowed: true,
             unlimited: true,
+            resets_at: quota.resetsAt,
             message: null
         })
     }
 
-    // CHECK LIMIT BEFORE INCREMENT - This is the key fix!
-    // If already at or over limit, REJECT without incrementing
-    if (currentUsageBeforePlay >= limit) {
+    if (!quota.consumed) {
         return NextResponse.json({
             success: false,
-            currentUsage: currentUsageBeforePlay,
-            limit,
+            currentUsage: quota.used,
+            limit: quota.limit,
             remaining: 0,
             allowed: false,
             unlimited: false,
-            message: `Batas harian ${limit} lagu tercapai. Upgrade untuk lanjut mendengarkan!`
+            resets_at: quota.resetsAt,
+            credits: 0,
+            message: `Batas harian ${quota.limit} lagu tercapai. Upgrade untuk lanjut mendengarkan!`
         })
     }
 
-    // User is allowed - NOW increment
-    const newUsage = currentUsageBeforePlay + 1
-
-    if (subscription) {
-        if (needsReset) {
-            await supabase
-                .from('user_subscriptions')
-                .update({ daily_usage: 1, last_reset_date: today })
-                .eq('user_id', user.id)
-        } else {
-            await supabase
-                .from('user_subscriptions')
-                .update({ daily_usage: newUsage })
-                .eq('user_id', user.id)
-        }
-    } else {
-        // Create new subscription
-        await supabase
-            .from('user_subscriptions')
-            .insert({
-                user_id: user.id,
-                plan_id: 'free',
-                daily_usage: 1,
-                last_reset_date: today
-            })
-    }
-
-    const actualUsage = needsReset ? 1 : newUsage
-    const remaining = Math.max(0, limit - actualUsage)
-    // After this play, can they play more?
-    const canPlayMore = actualUsage < limit
+    // After this play, can they play more (from the allowance or credits)?
+    const canPlayMore = quota.remaining > 0 || quota.credits > 0
+    const lastMessage = quota.viaCredit
+        ? `Kredit bonus terpakai, sisa ${quota.credits} kredit.`
+        : `Ini lagu terakhir hari ini! Batas ${quota.limit} lagu tercapai.`
 
     return NextResponse.json({
         success: true,
-        currentUsage: actualUsage,
-        limit,
-        remaining,
+        currentUsage: quota.used,
+        limit: quota.limit,
+        remaining: quota.remaining,
         allowed: canPlayMore,
         unlimited: false,
-        message: canPlayMore ? null : `Ini lagu terakhir hari ini! Batas ${limit} lagu tercapai.`
+        resets_at: quota.resetsAt,
+        via_credit: quota.viaCredit,
+        credits: quota.credits,
+        message: canPlayMore && !quota.viaCredit ? null : lastMessage
     })
-}
+})
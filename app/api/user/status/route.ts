@@ -1,93 +1,36 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-// Use service role to check block status
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!serviceRoleKey) {
-    console.error('Missing SUPABASE_SERVICE_ROLE_KEY in environment variables');
-}
-
-const supabaseAdmin = serviceRoleKey
-    ? createClient(supabaseUrl, serviceRoleKey)
-    : null;
-
-// GET - Check if current user is blocked
-export async function GET(request: NextRequest) {
+import { NextResponse } from 'next/server'
+import { serializeEntitlements } from '@/lib/entitlements'
+import { getCreditBalance, serializeCreditBalance } from '@/lib/play-credits'
+import { withOptionalAuth } from '@/lib/auth'
+
+// GET - Check if current user is blocked. Blocked users are let through
+// here so the client can show the reason and end of the block.
+export const GET = withOptionalAuth(async (request, { user, entitlements }) => {
     try {
-        const authHeader = request.headers.get('authorization')
-
-        if (!authHeader?.startsWith('Bearer ')) {
-            return NextResponse.json({ isBlocked: false })
-        }
-
-        const token = authHeader.replace('Bearer ', '')
-
-        if (!supabaseAdmin) {
-            console.error('Supabase Admin client not initialized');
-            return NextResponse.json({ isBlocked: false });
-        }
-
-        const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token)
-
-        if (userError || !user) {
-            return NextResponse.json({ isBlocked: false })
-        }
-
-        // Check subscription for block status
-        const { data: subscription, error: subError } = await supabaseAdmin!
-            .from('user_subscriptions')
-            .select('is_blocked, blocked_until, block_reason')
-            .eq('user_id', user.id)
-            .single()
-
-        if (subError || !subscription) {
+        if (!user) {
             return NextResponse.json({ isBlocked: false })
         }
 
-        // Check if blocked
-        if (!subscription.is_blocked) {
-            return NextResponse.json({ isBlocked: false })
-        }
-
-        // Check if block has expired
-        if (subscription.blocked_until) {
-            const blockedUntil = new Date(subscription.blocked_until)
-            const now = new Date()
-
-            if (blockedUntil < now) {
-                // Block has expired - auto unblock
-                await supabaseAdmin!
-                    .from('user_subscriptions')
-                    .update({
-                        is_blocked: false,
-                        blocked_until: null,
-                        block_reason: null
-                    })
-                    .eq('user_id', user.id)
-
-                return NextResponse.json({ isBlocked: false })
-            }
-
-            // Still blocked - return details
+        // The block was resolved (and lifted once it expired) along with
+        // everything else the user is entitled to
+        if (!entitlements.blocked) {
+            const credits = await getCreditBalance(user.id)
             return NextResponse.json({
-                isBlocked: true,
-                blockedUntil: subscription.blocked_until,
-                blockReason: subscription.block_reason,
-                isPermanent: blockedUntil.getFullYear() >= 9999
+                isBlocked: false,
+                entitlements: serializeEntitlements(entitlements),
+                credits: serializeCreditBalance(credits)
             })
         }
 
-        // Blocked with no expiry (shouldn't happen but handle it)
         return NextResponse.json({
             isBlocked: true,
-            blockReason: subscription.block_reason,
-            isPermanent: true
+            blockedUntil: entitlements.blocked.until,
+            blockReason: entitlements.blocked.reason,
+            isPermanent: entitlements.blocked.permanent
         })
 
     } catch (error) {
         console.error('User status check error:', error)
         return NextResponse.json({ isBlocked: false })
     }
-}
+}, { allowBlocked: true })
@@ -0,0 +1,46 @@
+// app/api/vouchers/validate/route.ts
+import { NextResponse } from 'next/server';
+import { calculatePlanCharge, getPlan, PlanChargeError } from '@/lib/plans';
+import { applyVoucherCode, VoucherError } from '@/lib/vouchers';
+import { withAuth } from '@/lib/auth';
+
+// POST - Preview the discounted price of a plan with a voucher code
+export const POST = withAuth(async (request, { user }) => {
+    try {
+        const { code, planId, quantity = 1 } = await request.json();
+
+        if (!code || !planId) {
+            return NextResponse.json({ error: 'code and planId are required' }, { status: 400 });
+        }
+
+        const plan = await getPlan(planId);
+        if (!plan) {
+            return NextResponse.json({ error: 'Invalid plan' }, { status: 400 });
+        }
+
+        const charge = await applyVoucherCode(calculatePlanCharge(plan, Number(quantity)), code, user.id);
+
+        return NextResponse.json({
+            valid: true,
+            data: {
+                code: charge.voucher!.code,
+                planId: plan.id,
+                planName: plan.name,
+                quantity: charge.quantity,
+                subtotal: charge.subtotal,
+                discount: charge.discount,
+                amount: charge.amount,
+            },
+        });
+    } catch (error) {
+        if (error instanceof VoucherError) {
+            return NextResponse.json({ valid: false, code: error.code, error: error.message }, { status: error.status });
+        }
+        if (error instanceof PlanChargeError) {
+            return NextResponse.json({ valid: false, error: error.message }, { status: error.status });
+        }
+
+        console.error('Validate voucher error:', error);
+        return NextResponse.json({ error: 'Failed to validate voucher' }, { status: 500 });
+    }
+});
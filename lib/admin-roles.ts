@@ -0,0 +1,88 @@
+// lib/admin-roles.ts
+// Roles of the people listed in admin_users and what each role may do.
+// Admin routes name the permission they need (see withAdmin in auth.ts), so
+// e.g. support can unblock users but cannot touch plan prices.
+import { supabaseAdmin } from './supabase';
+
+export type AdminRole = 'owner' | 'admin' | 'support' | 'finance';
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'admin', 'support', 'finance'];
+
+export type AdminPermission =
+    | 'users.read'
+    | 'users.block'        // block and unblock
+    | 'users.manage'       // change plan, delete
+    | 'plans.write'
+    | 'vouchers.read'
+    | 'vouchers.write'
+    | 'credits.read'
+    | 'credits.write'
+    | 'payments.read'      // reconciliation and refund reports
+    | 'payments.write'     // resolve mismatches, refund transactions
+    | 'referrals.read'
+    | 'referrals.write'
+    | 'settings.write'     // developer settings
+    | 'keys.manage'        // API keys
+    | 'admins.manage';     // add, remove and change the role of admins
+
+const ALL_PERMISSIONS: AdminPermission[] = [
+    'users.read', 'users.block', 'users.manage',
+    'plans.write',
+    'vouchers.read', 'vouchers.write',
+    'credits.read', 'credits.write',
+    'payments.read', 'payments.write',
+    'referrals.read', 'referrals.write',
+    'settings.write',
+    'keys.manage',
+    'admins.manage',
+];
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+    owner: ALL_PERMISSIONS,
+    admin: ALL_PERMISSIONS.filter(permission => permission !== 'admins.manage'),
+    support: [
+        'users.read', 'users.block',
+        'vouchers.read',
+        'credits.read', 'credits.write',
+        'payments.read',
+        'referrals.read',
+    ],
+    finance: [
+        'users.read',
+        'plans.write',
+        'vouchers.read', 'vouchers.write',
+        'credits.read',
+        'payments.read', 'payments.write',
+        'referrals.read', 'referrals.write',
+    ],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+    return typeof value === 'string' && (ADMIN_ROLES as string[]).includes(value);
+}
+
+export function getRolePermissions(role: AdminRole): AdminPermission[] {
+    return ROLE_PERMISSIONS[role];
+}
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+    return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Role of the admin with this email, or null when they are not an admin
+export async function getAdminRole(email: string | null | undefined): Promise<AdminRole | null> {
+    if (!email) return null;
+
+    const { data, error } = await supabaseAdmin
+        .from('admin_users')
+        .select('role')
+        .eq('email', email.toLowerCase())
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching admin role:', error);
+        return null;
+    }
+
+    return data && isAdminRole(data.role) ? data.role : null;
+}
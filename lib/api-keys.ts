@@ -21,7 +21,7 @@ function ensureDataDir() {
         if (!fs.existsSync(KEYS_FILE)) {
             fs.writeFileSync(KEYS_FILE, JSON.stringify([]));
         }
-    } catch (error) {
+    } catch {
         // Ignore errors in production/read-only environments
         console.warn('Could not create data directory, likely read-only environment.');
     }
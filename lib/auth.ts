@@ -0,0 +1,191 @@
+// lib/auth.ts
+// Authentication for API routes. Route handlers are wrapped in withAuth,
+// withOptionalAuth or withAdmin, which resolve the bearer token once, load
+// the user's profile and entitlements, and answer with the same 401/403
+// bodies everywhere. Admin routes additionally name the permission they need
+// (see admin-roles.ts). Users an admin has blocked are turned away with the
+// reason and end of the block; blocks that have run out are lifted on the way
+// (see getBlockStatus).
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import type { User } from '@supabase/supabase-js';
+import { supabaseAdmin } from './supabase';
+import { BlockStatus, Entitlements, getEntitlements, getGuestEntitlements } from './entitlements';
+import { AdminPermission, AdminRole, getAdminRole, hasPermission } from './admin-roles';
+
+export interface UserProfile {
+    user_id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+    timezone: string | null;
+}
+
+export interface AuthContext {
+    user: User;
+    profile: UserProfile | null;
+    entitlements: Entitlements;
+}
+
+// Guests get a null user and the free plan's entitlements
+export interface OptionalAuthContext {
+    user: User | null;
+    profile: UserProfile | null;
+    entitlements: Entitlements;
+}
+
+export interface AdminContext {
+    user: User;
+    email: string;
+    role: AdminRole;
+}
+
+export interface AuthOptions {
+    // Let blocked users through, for routes that report the block itself
+    allowBlocked?: boolean;
+}
+
+// `C` is the route's second argument, e.g. { params: Promise<{ id: string }> }
+type Handler<A, C> = (request: NextRequest, auth: A, context: C) => Promise<Response> | Response;
+
+export function getBearerToken(request: Request): string | null {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) return null;
+    return authHeader.substring(7) || null;
+}
+
+export function unauthorizedResponse(code: 'UNAUTHORIZED' | 'INVALID_TOKEN' = 'UNAUTHORIZED'): NextResponse {
+    return NextResponse.json({
+        error: code === 'INVALID_TOKEN' ? 'Invalid token' : 'Unauthorized',
+        code,
+    }, { status: 401 });
+}
+
+export function forbiddenResponse(error = 'Forbidden'): NextResponse {
+    return NextResponse.json({ error, code: 'FORBIDDEN' }, { status: 403 });
+}
+
+export function blockedResponse(block: BlockStatus): NextResponse {
+    return NextResponse.json({
+        error: block.permanent
+            ? 'Akun Anda diblokir'
+            : `Akun Anda diblokir hingga ${new Date(block.until!).toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' })}`,
+        code: 'USER_BLOCKED',
+        reason: block.reason,
+        until: block.permanent ? null : block.until,
+        permanent: block.permanent,
+    }, { status: 403 });
+}
+
+async function resolveUser(token: string): Promise<User | null> {
+    const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+    if (error || !user) return null;
+    return user;
+}
+
+async function getProfile(userId: string): Promise<UserProfile | null> {
+    const { data, error } = await supabaseAdmin
+        .from('user_profiles')
+        .select('user_id, full_name, avatar_url, timezone')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching user profile:', error);
+    }
+
+    return data as UserProfile | null;
+}
+
+// Profile and entitlements of a signed-in user, or the response to send
+// when they are blocked
+async function loadUser(user: User, options: AuthOptions): Promise<AuthContext | NextResponse> {
+    const [profile, entitlements] = await Promise.all([getProfile(user.id), getEntitlements(user.id)]);
+
+    if (entitlements.blocked && !options.allowBlocked) {
+        return blockedResponse(entitlements.blocked);
+    }
+
+    return { user, profile, entitlements };
+}
+
+function handleUnexpected(request: NextRequest, error: unknown): NextResponse {
+    console.error(`Unhandled error in ${request.method} ${request.nextUrl.pathname}:`, error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// For routes that need a signed-in user: 401 without a valid token, 403
+// while the user is blocked
+export function withAuth<C = unknown>(handler: Handler<AuthContext, C>, options: AuthOptions = {}) {
+    return async (request: NextRequest, context: C): Promise<Response> => {
+        try {
+            const token = getBearerToken(request);
+            if (!token) return unauthorizedResponse();
+
+            const user = await resolveUser(token);
+            if (!user) return unauthorizedResponse('INVALID_TOKEN');
+
+            const auth = await loadUser(user, options);
+            if (auth instanceof NextResponse) return auth;
+
+            return await handler(request, auth, context);
+        } catch (error) {
+            return handleUnexpected(request, error);
+        }
+    };
+}
+
+// For routes that also serve guests: no or an invalid token gives a null
+// user, but a blocked user is still turned away
+export function withOptionalAuth<C = unknown>(handler: Handler<OptionalAuthContext, C>, options: AuthOptions = {}) {
+    return async (request: NextRequest, context: C): Promise<Response> => {
+        try {
+            const token = getBearerToken(request);
+            const user = token ? await resolveUser(token) : null;
+
+            if (!user) {
+                return await handler(request, { user: null, profile: null, entitlements: await getGuestEntitlements() }, context);
+            }
+
+            const auth = await loadUser(user, options);
+            if (auth instanceof NextResponse) return auth;
+
+            return await handler(request, auth, context);
+        } catch (error) {
+            return handleUnexpected(request, error);
+        }
+    };
+}
+
+// For admin routes: 401 without a valid token, 403 for anyone who is not
+// an admin or whose role lacks the permission
+export function withAdmin<C = unknown>(permission: AdminPermission, handler: Handler<AdminContext, C>) {
+    return async (request: NextRequest, context: C): Promise<Response> => {
+        try {
+            const token = getBearerToken(request);
+            if (!token) return unauthorizedResponse();
+
+            const user = await resolveUser(token);
+            if (!user) return unauthorizedResponse('INVALID_TOKEN');
+
+            const role = await getAdminRole(user.email);
+            if (!role) return forbiddenResponse('Not an admin');
+            if (!hasPermission(role, permission)) {
+                return forbiddenResponse(`Role ${role} lacks permission ${permission}`);
+            }
+
+            return await handler(request, { user, email: user.email!, role }, context);
+        } catch (error) {
+            return handleUnexpected(request, error);
+        }
+    };
+}
+
+// For scheduled jobs: the request carries `Authorization: Bearer <CRON_SECRET>`
+export function isCronAuthorized(request: Request): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) return false;
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const received = Buffer.from(request.headers.get('authorization') || '');
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
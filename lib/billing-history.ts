@@ -0,0 +1,38 @@
+// lib/billing-history.ts
+import { supabaseAdmin } from './supabase';
+
+export type BillingEventType = 'payment' | 'refund' | 'plan_change' | 'gift' | 'trial' | 'referral';
+
+export interface BillingEvent {
+    userId: string;
+    type: BillingEventType;
+    title: string;
+    description: string;
+    transactionId?: string | null;
+    amount?: number | null;
+    metadata?: Record<string, unknown>;
+}
+
+// Append a human readable entry to the user's billing history.
+// Failures are logged but never break the payment flow that triggered them.
+export async function recordBillingEvent(event: BillingEvent): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('billing_history')
+        .insert({
+            user_id: event.userId,
+            type: event.type,
+            title: event.title,
+            description: event.description,
+            transaction_id: event.transactionId || null,
+            amount: event.amount ?? null,
+            metadata: event.metadata || {},
+        });
+
+    if (error) {
+        console.error('Error recording billing history:', error);
+    }
+}
+
+export function formatRupiah(amount: number): string {
+    return `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+}
@@ -0,0 +1,130 @@
+// lib/checkout.ts
+import { supabaseAdmin } from './supabase';
+import { getPaymentGateway } from './payments';
+import type { GatewayTransaction } from './payment-gateway';
+import { PlanCharge, PlanChargeError } from './plans';
+import { setRedemptionStatus, voucherError } from './vouchers';
+
+export interface CheckoutParams {
+    userId: string;
+    customerName: string;
+    customerEmail: string;
+    paymentMethod: string;
+    charge: PlanCharge;
+    gift?: { recipientEmail: string; message: string | null };
+}
+
+export interface CheckoutResult {
+    merchantRef: string;
+    transaction: GatewayTransaction;
+}
+
+// How long the user has to pay
+const CHECKOUT_EXPIRY_SECONDS = 24 * 60 * 60;
+
+// Generate unique merchant reference
+export function generateMerchantRef(): string {
+    return `BEATLY-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+}
+
+// Create a checkout: the PENDING transaction row (plus voucher redemption) is
+// written atomically first, then the gateway transaction is created and its
+// payment details are stored on the row.
+export async function createCheckout(params: CheckoutParams): Promise<CheckoutResult> {
+    const { charge } = params;
+    const merchantRef = generateMerchantRef();
+    const createdAt = new Date();
+
+    const { error: insertError } = await supabaseAdmin.rpc('create_checkout_transaction', {
+        p_transaction: {
+            id: merchantRef,
+            user_id: params.userId,
+            plan_id: charge.plan.id,
+            quantity: charge.quantity,
+            subtotal: charge.subtotal,
+            discount: charge.discount,
+            voucher_id: charge.voucher?.id || null,
+            proration_credit: charge.credit,
+            upgrade_from_plan_id: charge.creditFromPlanId,
+            upgrade_from_expires_at: charge.creditUntil,
+            gift_recipient_email: params.gift?.recipientEmail || null,
+            gift_message: params.gift?.message || null,
+            amount: charge.amount,
+            payment_method: params.paymentMethod,
+            status: 'PENDING',
+            created_at: createdAt.toISOString(),
+            // Set up front so the sweeper expires the row (and releases its
+            // voucher) even if storing the gateway's details below fails
+            expired_at: new Date(createdAt.getTime() + CHECKOUT_EXPIRY_SECONDS * 1000).toISOString(),
+        },
+        p_voucher_id: charge.voucher?.id || null,
+        p_discount: charge.discount,
+    });
+
+    if (insertError) {
+        // Voucher limits are enforced inside the database function
+        if (insertError.message?.startsWith('VOUCHER_')) {
+            throw voucherError(insertError.message);
+        }
+        if (insertError.code === '23505' && insertError.message?.includes('transactions_pending_upgrade_idx')) {
+            throw new PlanChargeError('Masih ada pembayaran upgrade yang belum selesai. Selesaikan atau tunggu hingga kedaluwarsa.', 409);
+        }
+        throw insertError;
+    }
+
+    const callbackUrl = `${process.env.NEXT_PUBLIC_API_URL || process.env.VERCEL_URL || 'http://localhost:3001'}/api/tripay/callback`;
+    const returnUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/thank-you?ref=${merchantRef}`;
+
+    let transaction: GatewayTransaction;
+    try {
+        transaction = await getPaymentGateway().createTransaction({
+            method: params.paymentMethod,
+            merchantRef,
+            amount: charge.amount,
+            customerName: params.customerName,
+            customerEmail: params.customerEmail,
+            orderItems: params.gift
+                ? charge.orderItems.map(item => ({ ...item, name: `Hadiah: ${item.name}` }))
+                : charge.orderItems,
+            callbackUrl,
+            returnUrl,
+            expiredTime: CHECKOUT_EXPIRY_SECONDS,
+        });
+    } catch (error) {
+        // Nothing was created at the gateway - free the voucher again
+        await supabaseAdmin
+            .from('transactions')
+            .update({ status: 'FAILED', updated_at: new Date().toISOString() })
+            .eq('id', merchantRef);
+        if (charge.voucher) {
+            await setRedemptionStatus(merchantRef, 'released');
+        }
+        throw error;
+    }
+
+    // Without the payment details the user cannot pay and the transaction
+    // cannot be checked later, so retry and then report the failure
+    let dbError: unknown = null;
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const { error } = await supabaseAdmin
+            .from('transactions')
+            .update({
+                payment_reference: transaction.reference,
+                pay_code: transaction.pay_code,
+                pay_url: transaction.pay_url,
+                checkout_url: transaction.checkout_url,
+                qr_url: transaction.qr_url || null,
+                qr_string: transaction.qr_string || null,
+                payment_name: transaction.payment_name,
+                fee_customer: transaction.fee_customer,
+                expired_at: new Date(transaction.expired_time * 1000).toISOString(),
+            })
+            .eq('id', merchantRef);
+
+        if (!error) return { merchantRef, transaction };
+        dbError = error;
+    }
+
+    console.error(`Error storing payment details of transaction ${merchantRef}:`, dbError);
+    throw dbError;
+}
@@ -0,0 +1,23 @@
+// lib/email-identity.ts
+// A normalized key for the mailbox behind an account, so one-per-customer
+// rules (free trials, referral rewards) cannot be repeated by signing up
+// again with an alias of the same mailbox. The limit is per mailbox: a
+// different email address is a different identity, since the payment
+// gateway does not tell us who paid.
+
+// Providers that ignore dots in the local part
+const DOTLESS_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+// "John.Doe+beatly@GoogleMail.com" -> "johndoe@gmail.com"
+export function getEmailIdentity(email: string): string {
+    const [rawLocal, rawDomain = ''] = email.trim().toLowerCase().split('@');
+    let local = rawLocal.split('+')[0];
+    let domain = rawDomain;
+
+    if (DOTLESS_DOMAINS.has(domain)) {
+        local = local.replace(/\./g, '');
+        domain = 'gmail.com';
+    }
+
+    return `${local}@${domain}`;
+}
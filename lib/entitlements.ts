@@ -0,0 +1,169 @@
+// lib/entitlements.ts
+// What a user may do right now. The effective plan is resolved once here
+// (lapsed periods moved on, trials, family/duo membership, admin blocks) and
+// turned into a typed capability set, so routes never read plan columns or
+// hard-code fallbacks themselves.
+import { supabaseAdmin } from './supabase';
+import { getPlan, Plan } from './plans';
+import { applyLapse, FREE_PLAN_ID, getSubscription, isSubscriptionActive, SubscriptionRow } from './subscriptions';
+import { getFamilyPlan } from './family';
+
+export type AudioQuality = 'normal' | 'high' | 'lossless';
+
+// Daily and total limits use -1 for unlimited
+export interface Capabilities {
+    plays: number; // per day
+    skips: number; // per day
+    aiGenerations: number; // per day
+    lyrics: boolean;
+    playlists: number; // playlists the user can own
+    audioQuality: AudioQuality;
+}
+
+export interface BlockStatus {
+    reason: string | null;
+    until: string | null;
+    permanent: boolean;
+}
+
+export interface Entitlements extends Capabilities {
+    userId: string | null; // null for guests
+    planId: string;
+    planName: string;
+    premium: boolean;
+    trial: boolean;
+    viaFamily: boolean;
+    expiresAt: string | null;
+    // The user's paid period ran out and was moved on while resolving
+    expired: boolean;
+    // Set while an admin block is in force; all capabilities are then off
+    blocked: BlockStatus | null;
+}
+
+// Used when a plan row leaves a capability unset
+const DEFAULT_DAILY_LIMIT = 25;
+const DEFAULT_FREE_SKIP_LIMIT = 3;
+const AUDIO_QUALITIES: AudioQuality[] = ['normal', 'high', 'lossless'];
+
+const NO_CAPABILITIES: Capabilities = {
+    plays: 0,
+    skips: 0,
+    aiGenerations: 0,
+    lyrics: false,
+    playlists: 0,
+    audioQuality: 'normal',
+};
+
+export function planCapabilities(plan: Plan | null): Capabilities {
+    const paid = Number(plan?.price) > 0;
+
+    return {
+        plays: plan?.daily_limit ?? DEFAULT_DAILY_LIMIT,
+        skips: plan?.skip_limit ?? (paid ? -1 : DEFAULT_FREE_SKIP_LIMIT),
+        aiGenerations: plan?.ai_generation_limit ?? -1,
+        lyrics: plan?.lyrics_enabled ?? true,
+        playlists: plan?.playlist_limit ?? -1,
+        audioQuality: AUDIO_QUALITIES.includes(plan?.audio_quality as AudioQuality)
+            ? plan!.audio_quality as AudioQuality
+            : paid ? 'high' : 'normal',
+    };
+}
+
+// Whether an admin block is in force. An expired block is lifted on the way.
+export async function getBlockStatus(
+    subscription: Pick<SubscriptionRow, 'user_id' | 'is_blocked' | 'blocked_until' | 'block_reason'> | null,
+    now = new Date()
+): Promise<BlockStatus | null> {
+    if (!subscription?.is_blocked) return null;
+
+    if (subscription.blocked_until && new Date(subscription.blocked_until) < now) {
+        const { error } = await supabaseAdmin
+            .from('user_subscriptions')
+            .update({ is_blocked: false, blocked_until: null, block_reason: null })
+            .eq('user_id', subscription.user_id)
+            .eq('blocked_until', subscription.blocked_until);
+
+        if (error) {
+            console.error(`Failed to lift expired block of user ${subscription.user_id}:`, error);
+        }
+        return null;
+    }
+
+    return {
+        reason: subscription.block_reason || null,
+        until: subscription.blocked_until || null,
+        // Permanent blocks are stored as year 9999 (or without an end)
+        permanent: !subscription.blocked_until || new Date(subscription.blocked_until).getFullYear() >= 9999,
+    };
+}
+
+// Signed-out visitors get what the free plan allows
+export async function getGuestEntitlements(): Promise<Entitlements> {
+    const plan = await getPlan(FREE_PLAN_ID);
+
+    return {
+        userId: null,
+        planId: FREE_PLAN_ID,
+        planName: plan?.name || 'Free',
+        premium: false,
+        trial: false,
+        viaFamily: false,
+        expiresAt: null,
+        expired: false,
+        blocked: null,
+        ...planCapabilities(plan),
+    };
+}
+
+export async function getEntitlements(userId: string, now = new Date()): Promise<Entitlements> {
+    const subscription = await getSubscription(userId);
+    let planId = subscription?.plan_id || FREE_PLAN_ID;
+    let expiresAt = subscription?.expires_at || null;
+    let trial = !!subscription?.is_trial;
+    let expired = false;
+
+    if (subscription && planId !== FREE_PLAN_ID && !isSubscriptionActive(subscription, now)) {
+        const next = await applyLapse(subscription, now);
+        planId = next?.planId || FREE_PLAN_ID;
+        expiresAt = next?.expiresAt || null;
+        trial = false;
+        expired = true;
+    }
+
+    // Members of a family/duo plan use the owner's plan
+    const familyPlan = await getFamilyPlan(userId);
+    const plan = familyPlan || await getPlan(planId);
+    const blocked = await getBlockStatus(subscription, now);
+
+    return {
+        userId,
+        planId: plan?.id || planId,
+        planName: plan?.name || (planId === FREE_PLAN_ID ? 'Free' : planId),
+        premium: (plan?.id || planId) !== FREE_PLAN_ID,
+        trial: !familyPlan && trial,
+        viaFamily: !!familyPlan,
+        expiresAt: familyPlan ? null : expiresAt,
+        expired,
+        blocked,
+        ...(blocked ? NO_CAPABILITIES : planCapabilities(plan)),
+    };
+}
+
+// Capabilities as sent to clients
+export function serializeEntitlements(entitlements: Entitlements) {
+    return {
+        plan_id: entitlements.planId,
+        plan_name: entitlements.planName,
+        is_premium: entitlements.premium,
+        is_trial: entitlements.trial,
+        via_family: entitlements.viaFamily,
+        expires_at: entitlements.expiresAt,
+        blocked: entitlements.blocked,
+        daily_plays: entitlements.plays,
+        daily_skips: entitlements.skips,
+        daily_ai_generations: entitlements.aiGenerations,
+        lyrics: entitlements.lyrics,
+        max_playlists: entitlements.playlists,
+        audio_quality: entitlements.audioQuality,
+    };
+}
@@ -0,0 +1,265 @@
+// lib/family.ts
+// Group (family/duo) plans. A plan with `seats` > 1 lets its owner invite
+// members by email; active members get the owner's plan as long as the
+// owner's subscription is active and they have no paid plan of their own.
+// Usage is still counted per member.
+import { supabaseAdmin } from './supabase';
+import { getPlan, Plan } from './plans';
+import { getSubscription, isSubscriptionActive } from './subscriptions';
+import { escapeHtml, isMailerConfigured, renderEmail, sendMail } from './mailer';
+
+export type MemberStatus = 'invited' | 'active' | 'removed' | 'released';
+
+export interface PlanMember {
+    id: string;
+    owner_id: string;
+    member_email: string;
+    member_id: string | null;
+    status: MemberStatus;
+    invited_at: string;
+    joined_at: string | null;
+    ended_at: string | null;
+}
+
+export class FamilyError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'FamilyError';
+        this.status = status;
+    }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Seats held by a pending invite or an active member
+const SEAT_STATUSES: MemberStatus[] = ['invited', 'active'];
+
+export function planSeats(plan: Pick<Plan, 'seats'> | null): number {
+    return Math.max(1, plan?.seats || 1);
+}
+
+// The owner's active group plan, or null if they have none
+export async function getOwnerGroupPlan(ownerId: string): Promise<Plan | null> {
+    const subscription = await getSubscription(ownerId);
+    if (!isSubscriptionActive(subscription)) return null;
+
+    const plan = await getPlan(subscription!.plan_id);
+    return plan && planSeats(plan) > 1 ? plan : null;
+}
+
+export async function listMembers(ownerId: string): Promise<PlanMember[]> {
+    const { data, error } = await supabaseAdmin
+        .from('plan_members')
+        .select('*')
+        .eq('owner_id', ownerId)
+        .in('status', SEAT_STATUSES)
+        .order('invited_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as PlanMember[];
+}
+
+export async function getActiveMembership(userId: string): Promise<PlanMember | null> {
+    const { data, error } = await supabaseAdmin
+        .from('plan_members')
+        .select('*')
+        .eq('member_id', userId)
+        .eq('status', 'active')
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching plan membership:', error);
+        return null;
+    }
+    return data as PlanMember | null;
+}
+
+// Release seats beyond what the owner's current plan allows (all of them when
+// the owner no longer has an active group plan). Earliest members are kept.
+export async function releaseExcessSeats(ownerId: string): Promise<number> {
+    const plan = await getOwnerGroupPlan(ownerId);
+    const members = await listMembers(ownerId);
+    const excess = members.slice(planSeats(plan) - 1);
+
+    if (excess.length === 0) return 0;
+
+    const { error } = await supabaseAdmin
+        .from('plan_members')
+        .update({ status: 'released', ended_at: new Date().toISOString() })
+        .in('id', excess.map(member => member.id))
+        .in('status', SEAT_STATUSES);
+
+    if (error) throw error;
+
+    console.log(`Released ${excess.length} seat(s) of owner ${ownerId}`);
+    return excess.length;
+}
+
+// Plan a member inherits from their group owner. Null when the user has an
+// active paid plan of their own, is not a member, or the owner's group plan
+// ended (its seats are released on the way).
+export async function getFamilyPlan(userId: string): Promise<Plan | null> {
+    const membership = await getActiveMembership(userId);
+    if (!membership) return null;
+
+    if (isSubscriptionActive(await getSubscription(userId))) return null;
+
+    const plan = await getOwnerGroupPlan(membership.owner_id);
+    if (!plan) {
+        await releaseExcessSeats(membership.owner_id);
+        return null;
+    }
+    return plan;
+}
+
+export async function inviteMember(owner: { id: string; email?: string | null; name?: string | null }, email: string): Promise<PlanMember> {
+    const memberEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(memberEmail)) {
+        throw new FamilyError('Email tidak valid');
+    }
+    if (owner.email && memberEmail === owner.email.toLowerCase()) {
+        throw new FamilyError('Anda tidak bisa mengundang diri sendiri');
+    }
+
+    const plan = await getOwnerGroupPlan(owner.id);
+    if (!plan) {
+        throw new FamilyError('Paket Anda tidak mendukung anggota keluarga', 403);
+    }
+
+    const members = await listMembers(owner.id);
+    if (members.some(member => member.member_email === memberEmail)) {
+        throw new FamilyError('Email ini sudah diundang', 409);
+    }
+    const seatsFull = new FamilyError(`Semua ${planSeats(plan)} kursi paket ${plan.name} sudah terpakai`, 409);
+    if (members.length >= planSeats(plan) - 1) {
+        throw seatsFull;
+    }
+
+    // The seat count is checked again under a lock (see invite_plan_member)
+    const { data: invite, error } = await supabaseAdmin
+        .rpc('invite_plan_member', {
+            p_owner_id: owner.id,
+            p_member_email: memberEmail,
+            p_max_members: planSeats(plan) - 1,
+        })
+        .single<PlanMember>();
+
+    if (error) {
+        if (error.code === '23505') {
+            throw new FamilyError('Email ini sudah diundang', 409);
+        }
+        if (error.message === 'FAMILY_SEATS_FULL') {
+            throw seatsFull;
+        }
+        throw error;
+    }
+
+    if (isMailerConfigured()) {
+        const acceptUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/family/accept?invite=${invite.id}`;
+        try {
+            await sendMail({
+                to: memberEmail,
+                subject: `Undangan bergabung ke paket Beatly ${plan.name}`,
+                html: renderEmail('👨‍👩‍👧 Undangan Paket Beatly', `
+                    <p style="color: #374151; font-size: 16px; margin: 0 0 20px 0;">
+                        ${escapeHtml(owner.name || owner.email || 'Seseorang')} mengundang Anda bergabung ke paket <strong>${escapeHtml(plan.name)}</strong>.
+                        Masuk ke Beatly dengan email ini lalu terima undangannya.
+                    </p>
+                    <a href="${acceptUrl}" style="display: inline-block; background: #6366f1; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                        Terima Undangan
+                    </a>
+                `),
+            });
+        } catch (mailError) {
+            console.error(`Failed to email invite ${invite.id}:`, mailError);
+        }
+    }
+
+    return invite;
+}
+
+// Accept an invite addressed to the caller's email
+export async function acceptInvite(inviteId: string, user: { id: string; email?: string | null }): Promise<PlanMember> {
+    const { data: invite } = await supabaseAdmin
+        .from('plan_members')
+        .select('*')
+        .eq('id', inviteId)
+        .eq('status', 'invited')
+        .maybeSingle();
+
+    if (!invite || !user.email || invite.member_email !== user.email.toLowerCase()) {
+        throw new FamilyError('Undangan tidak ditemukan', 404);
+    }
+    if (invite.owner_id === user.id) {
+        throw new FamilyError('Anda tidak bisa bergabung ke paket sendiri');
+    }
+    if (await getActiveMembership(user.id)) {
+        throw new FamilyError('Anda sudah menjadi anggota paket lain. Keluar dulu dari paket tersebut', 409);
+    }
+    if (!await getOwnerGroupPlan(invite.owner_id)) {
+        throw new FamilyError('Paket pemilik undangan sudah tidak aktif', 410);
+    }
+
+    const { data: member, error } = await supabaseAdmin
+        .from('plan_members')
+        .update({ member_id: user.id, status: 'active', joined_at: new Date().toISOString() })
+        .eq('id', invite.id)
+        .eq('status', 'invited')
+        .select('*')
+        .maybeSingle();
+
+    if (error) {
+        if (error.code === '23505') { // Active in another group (raced)
+            throw new FamilyError('Anda sudah menjadi anggota paket lain', 409);
+        }
+        throw error;
+    }
+    if (!member) {
+        throw new FamilyError('Undangan tidak ditemukan', 404);
+    }
+
+    return member as PlanMember;
+}
+
+// Remove a member or cancel an invite. Owners can remove anyone in their
+// group; members can only remove themselves (leave).
+export async function removeMember(memberRowId: string, userId: string): Promise<void> {
+    const { data: member } = await supabaseAdmin
+        .from('plan_members')
+        .select('*')
+        .eq('id', memberRowId)
+        .in('status', SEAT_STATUSES)
+        .maybeSingle();
+
+    if (!member || (member.owner_id !== userId && member.member_id !== userId)) {
+        throw new FamilyError('Anggota tidak ditemukan', 404);
+    }
+
+    const { error } = await supabaseAdmin
+        .from('plan_members')
+        .update({ status: 'removed', ended_at: new Date().toISOString() })
+        .eq('id', member.id);
+
+    if (error) throw error;
+}
+
+// Sweeper step: release the seats of owners whose group plan ended
+export async function releaseLapsedSeats(): Promise<number> {
+    const { data, error } = await supabaseAdmin
+        .from('plan_members')
+        .select('owner_id')
+        .in('status', SEAT_STATUSES);
+
+    if (error) throw error;
+
+    let released = 0;
+    for (const ownerId of new Set((data || []).map(row => row.owner_id))) {
+        try {
+            released += await releaseExcessSeats(ownerId);
+        } catch (releaseError) {
+            console.error(`Failed to release seats of owner ${ownerId}:`, releaseError);
+        }
+    }
+    return released;
+}
@@ -0,0 +1,291 @@
+// lib/gifts.ts
+// Gift subscriptions: a paid checkout for someone else's email. When the
+// payment succeeds a gift code is issued and emailed to the recipient, who
+// redeems it onto their own subscription. Only an account with the
+// recipient's email can redeem the code.
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { describePlanDuration, getPlan } from './plans';
+import { grantPlan, revokePeriod } from './subscriptions';
+import { formatRupiah, recordBillingEvent } from './billing-history';
+import { escapeHtml, isMailerConfigured, renderEmail, sendMail } from './mailer';
+import { getEmailIdentity } from './email-identity';
+
+export type GiftStatus = 'issued' | 'redeemed' | 'revoked';
+
+export interface Gift {
+    id: string;
+    code: string;
+    transaction_id: string;
+    purchaser_id: string;
+    recipient_email: string;
+    message: string | null;
+    plan_id: string;
+    quantity: number;
+    status: GiftStatus;
+    redeemed_by: string | null;
+    redeemed_at: string | null;
+    emailed_at: string | null;
+    created_at: string;
+}
+
+export interface GiftTransaction {
+    id: string;
+    user_id: string;
+    plan_id: string;
+    amount: number;
+    quantity?: number | null;
+    gift_recipient_email?: string | null;
+    gift_message?: string | null;
+}
+
+export class GiftError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'GiftError';
+        this.status = status;
+    }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_MESSAGE_LENGTH = 500;
+// No 0/O/1/I so codes can be typed from an email
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function normalizeGiftEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+// Validate the gift fields of a checkout request
+export function parseGiftRequest(recipientEmail: unknown, message: unknown): { recipientEmail: string; message: string | null } {
+    if (typeof recipientEmail !== 'string' || !EMAIL_PATTERN.test(recipientEmail.trim())) {
+        throw new GiftError('Email penerima tidak valid');
+    }
+    if (message !== undefined && message !== null && typeof message !== 'string') {
+        throw new GiftError('Pesan hadiah tidak valid');
+    }
+    if (typeof message === 'string' && message.length > MAX_MESSAGE_LENGTH) {
+        throw new GiftError(`Pesan hadiah maksimal ${MAX_MESSAGE_LENGTH} karakter`);
+    }
+
+    return {
+        recipientEmail: normalizeGiftEmail(recipientEmail),
+        message: typeof message === 'string' && message.trim() ? message.trim() : null,
+    };
+}
+
+export function generateGiftCode(): string {
+    const bytes = crypto.randomBytes(12);
+    const chars = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+    return `GIFT-${chars.slice(0, 4).join('')}-${chars.slice(4, 8).join('')}-${chars.slice(8, 12).join('')}`;
+}
+
+async function emailGift(gift: Gift, planName: string, duration: string, senderName: string) {
+    const redeemUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/redeem?code=${gift.code}`;
+
+    await sendMail({
+        to: gift.recipient_email,
+        subject: `🎁 ${senderName} memberi Anda Beatly ${planName}`,
+        html: renderEmail('🎁 Anda Mendapat Hadiah Beatly', `
+            <p style="color: #374151; font-size: 16px; margin: 0 0 15px 0;">
+                <strong>${escapeHtml(senderName)}</strong> memberi Anda paket <strong>${escapeHtml(planName)}</strong> selama ${duration}.
+            </p>
+            ${gift.message ? `
+            <div style="background: white; padding: 15px; border-radius: 8px; border: 1px solid #e5e7eb; margin-bottom: 20px;">
+                <p style="color: #374151; margin: 0; white-space: pre-wrap;">${escapeHtml(gift.message)}</p>
+            </div>` : ''}
+            <p style="color: #6b7280; margin: 0 0 5px 0; font-size: 14px;">Kode hadiah:</p>
+            <p style="color: #111827; margin: 0 0 20px 0; font-size: 22px; font-weight: 700; letter-spacing: 2px;">${gift.code}</p>
+            <a href="${redeemUrl}" style="display: inline-block; background: #6366f1; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                Tukarkan Hadiah
+            </a>
+        `),
+    });
+}
+
+// Issue the gift for a paid gift transaction (called instead of granting the
+// plan to the payer). Safe to call again: the code is created once per
+// transaction and the email is only sent until it succeeded.
+export async function issueGift(transaction: GiftTransaction): Promise<Gift> {
+    const plan = await getPlan(transaction.plan_id);
+    if (!plan) {
+        throw new Error(`Plan ${transaction.plan_id} not found`);
+    }
+
+    const quantity = transaction.quantity || 1;
+
+    const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('gifts')
+        .insert({
+            code: generateGiftCode(),
+            transaction_id: transaction.id,
+            purchaser_id: transaction.user_id,
+            recipient_email: normalizeGiftEmail(transaction.gift_recipient_email!),
+            message: transaction.gift_message || null,
+            plan_id: plan.id,
+            quantity,
+            status: 'issued',
+        })
+        .select('*')
+        .single();
+
+    let gift = inserted as Gift | null;
+
+    if (insertError) {
+        if (insertError.code !== '23505') throw insertError;
+
+        // Already issued by an earlier delivery
+        const { data: existing, error: fetchError } = await supabaseAdmin
+            .from('gifts')
+            .select('*')
+            .eq('transaction_id', transaction.id)
+            .single();
+        if (fetchError) throw fetchError;
+        gift = existing as Gift;
+    } else {
+        await recordBillingEvent({
+            userId: transaction.user_id,
+            type: 'gift',
+            title: `Hadiah ${plan.name}`,
+            description: `Pembayaran ${formatRupiah(transaction.amount)} untuk hadiah ${plan.name} ` +
+                `(${describePlanDuration(plan, quantity)}) kepada ${gift!.recipient_email}.`,
+            transactionId: transaction.id,
+            amount: transaction.amount,
+            metadata: { gift_id: gift!.id },
+        });
+    }
+
+    if (!gift!.emailed_at && isMailerConfigured()) {
+        try {
+            const { data: { user } } = await supabaseAdmin.auth.admin.getUserById(transaction.user_id);
+            const senderName = user?.user_metadata?.full_name || user?.email || 'Teman Anda';
+
+            await emailGift(gift!, plan.name, describePlanDuration(plan, quantity), senderName);
+            await supabaseAdmin
+                .from('gifts')
+                .update({ emailed_at: new Date().toISOString() })
+                .eq('id', gift!.id);
+        } catch (error) {
+            // The buyer can still see and forward the code from GET /api/gifts
+            console.error(`Failed to email gift ${gift!.id}:`, error);
+        }
+    }
+
+    return gift!;
+}
+
+// Redeem a gift code onto the caller's subscription. The gifted time is added
+// without losing any time the user already has.
+export async function redeemGift(code: string, user: { id: string; email?: string | null }) {
+    const userId = user.id;
+
+    const { data: gift, error } = await supabaseAdmin
+        .from('gifts')
+        .select('*')
+        .eq('code', code.trim().toUpperCase())
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!gift) {
+        throw new GiftError('Kode hadiah tidak valid', 404);
+    }
+    if (gift.status === 'redeemed') {
+        throw new GiftError('Kode hadiah sudah digunakan', 409);
+    }
+    if (gift.status !== 'issued') {
+        throw new GiftError('Kode hadiah sudah tidak berlaku', 410);
+    }
+
+    // Aliases of the recipient's mailbox count as the recipient
+    if (!user.email || getEmailIdentity(user.email) !== getEmailIdentity(gift.recipient_email)) {
+        throw new GiftError('Kode hadiah ini ditujukan untuk alamat email lain', 403);
+    }
+
+    const plan = await getPlan(gift.plan_id);
+    if (!plan) {
+        throw new Error(`Plan ${gift.plan_id} not found`);
+    }
+
+    // Claim the code first so it cannot be redeemed twice
+    const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('gifts')
+        .update({ status: 'redeemed', redeemed_by: userId, redeemed_at: new Date().toISOString() })
+        .eq('id', gift.id)
+        .eq('status', 'issued')
+        .select('id')
+        .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!claimed) {
+        throw new GiftError('Kode hadiah sudah digunakan', 409);
+    }
+
+    let period;
+    try {
+        period = await grantPlan(userId, plan, gift.quantity, { keepCurrent: true });
+    } catch (grantError) {
+        await supabaseAdmin
+            .from('gifts')
+            .update({ status: 'issued', redeemed_by: null, redeemed_at: null })
+            .eq('id', gift.id);
+        throw grantError;
+    }
+
+    await supabaseAdmin
+        .from('gifts')
+        .update({ period_start: period.startsAt, period_end: period.expiresAt })
+        .eq('id', gift.id);
+
+    await recordBillingEvent({
+        userId,
+        type: 'gift',
+        title: `Hadiah ${plan.name} ditukarkan`,
+        description: `Kode ${gift.code} menambahkan ${plan.name} (${describePlanDuration(plan, gift.quantity)}), ` +
+            `aktif hingga ${new Date(period.expiresAt!).toLocaleDateString('id-ID')}.`,
+        metadata: { gift_id: gift.id, period_start: period.startsAt, period_end: period.expiresAt },
+    });
+
+    return { gift: { ...gift, status: 'redeemed' as GiftStatus }, plan, period };
+}
+
+// Take a refunded gift back: an unredeemed code is revoked, a redeemed one
+// loses the refunded share of the time it added to the recipient
+export async function revokeGift(transactionId: string, share: number): Promise<{
+    action: 'revoked' | 'shortened' | 'unchanged';
+    giftId: string | null;
+}> {
+    const { data: gift } = await supabaseAdmin
+        .from('gifts')
+        .select('*')
+        .eq('transaction_id', transactionId)
+        .maybeSingle();
+
+    if (!gift) {
+        return { action: 'unchanged', giftId: null };
+    }
+
+    if (gift.status === 'issued') {
+        const { data: revoked } = await supabaseAdmin
+            .from('gifts')
+            .update({ status: 'revoked' })
+            .eq('id', gift.id)
+            .eq('status', 'issued')
+            .select('id')
+            .maybeSingle();
+        if (revoked) {
+            return { action: 'revoked', giftId: gift.id };
+        }
+        // Redeemed in the meantime - fall through with fresh data
+        return revokeGift(transactionId, share);
+    }
+
+    if (gift.status === 'redeemed' && gift.redeemed_by && gift.period_start && gift.period_end) {
+        const periodMs = new Date(gift.period_end).getTime() - new Date(gift.period_start).getTime();
+        await revokePeriod(gift.redeemed_by, gift.plan_id, Math.round(periodMs * share));
+        return { action: 'shortened', giftId: gift.id };
+    }
+
+    return { action: 'unchanged', giftId: gift.id };
+}
@@ -0,0 +1,64 @@
+// lib/mailer.ts
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    replyTo?: string;
+}
+
+let transporter: Transporter | null = null;
+
+// Gmail SMTP transport. For Gmail you need an App Password if 2FA is enabled.
+function getTransporter(): Transporter {
+    if (!transporter) {
+        transporter = nodemailer.createTransport({
+            service: 'gmail',
+            auth: {
+                user: process.env.SMTP_EMAIL,
+                pass: process.env.SMTP_PASSWORD,
+            },
+        });
+    }
+    return transporter;
+}
+
+export function isMailerConfigured(): boolean {
+    return !!process.env.SMTP_EMAIL && !!process.env.SMTP_PASSWORD;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    await getTransporter().sendMail({
+        from: process.env.SMTP_EMAIL,
+        ...message,
+    });
+}
+
+// Escape user-provided text (names, messages) before putting it into email HTML
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Standard Beatly email layout: gradient header and a light body card
+export function renderEmail(title: string, body: string, footer = 'Email ini dikirim otomatis oleh Beatly.'): string {
+    return `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 20px; border-radius: 10px 10px 0 0;">
+                <h1 style="color: white; margin: 0; font-size: 24px;">${title}</h1>
+            </div>
+            <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px;">
+                ${body}
+                <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+                <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+                    ${footer}
+                </p>
+            </div>
+        </div>
+    `;
+}
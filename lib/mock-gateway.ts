@@ -0,0 +1,225 @@
+// lib/mock-gateway.ts
+// Fully local payment gateway for development and end-to-end checkout tests.
+// Transactions live in memory; simulateCallback() signs a Tripay-shaped
+// payment_status event and delivers it to the transaction's callback URL,
+// so the real callback route and ledger are exercised without the sandbox.
+import crypto from 'crypto';
+import type {
+    CallbackEvent,
+    CreateTransactionParams,
+    GatewayTransaction,
+    GatewayTransactionPage,
+    PaymentChannel,
+    PaymentGateway,
+} from './payment-gateway';
+import { calculateChannelFee, mapTripayStyleStatus } from './payment-gateway';
+
+export type MockCallbackStatus = 'PAID' | 'EXPIRED' | 'FAILED' | 'REFUND';
+
+const MOCK_SECRET = process.env.MOCK_GATEWAY_SECRET || 'beatly-mock-gateway';
+
+function fee(flat: number, percent: string) {
+    return { flat, percent };
+}
+
+const MOCK_CHANNELS: PaymentChannel[] = [
+    {
+        group: 'Virtual Account',
+        code: 'MOCKVA',
+        name: 'Mock Virtual Account',
+        type: 'direct',
+        fee_merchant: fee(0, '0.00'),
+        fee_customer: fee(4250, '0.00'),
+        total_fee: fee(4250, '0.00'),
+        minimum_fee: 0,
+        maximum_fee: 0,
+        icon_url: '',
+        active: true,
+    },
+    {
+        group: 'E-Wallet',
+        code: 'MOCKQRIS',
+        name: 'Mock QRIS',
+        type: 'direct',
+        fee_merchant: fee(0, '0.00'),
+        fee_customer: fee(750, '0.70'),
+        total_fee: fee(750, '0.70'),
+        minimum_fee: 0,
+        maximum_fee: 0,
+        icon_url: '',
+        active: true,
+    },
+    {
+        group: 'Convenience Store',
+        code: 'MOCKMART',
+        name: 'Mock Minimarket',
+        type: 'direct',
+        fee_merchant: fee(0, '0.00'),
+        fee_customer: fee(3500, '0.00'),
+        total_fee: fee(3500, '0.00'),
+        minimum_fee: 0,
+        maximum_fee: 0,
+        icon_url: '',
+        active: true,
+    },
+];
+
+// In-memory transaction store, keyed by reference
+const transactions = new Map<string, GatewayTransaction>();
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', MOCK_SECRET).update(data).digest('hex');
+}
+
+export function createMockGateway(): PaymentGateway {
+    function findChannel(code: string): PaymentChannel {
+        const channel = MOCK_CHANNELS.find(ch => ch.code === code);
+        if (!channel) {
+            throw new Error(`Payment channel ${code} is not available`);
+        }
+        return channel;
+    }
+
+    async function getPaymentChannels(): Promise<PaymentChannel[]> {
+        return MOCK_CHANNELS;
+    }
+
+    async function createTransaction(params: CreateTransactionParams): Promise<GatewayTransaction> {
+        const channel = findChannel(params.method);
+        const customerFee = calculateChannelFee(channel, params.amount);
+        const reference = `MOCK-${Date.now()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+        const transaction: GatewayTransaction = {
+            reference,
+            merchant_ref: params.merchantRef,
+            payment_selection_type: 'static',
+            payment_method: channel.code,
+            payment_name: channel.name,
+            customer_name: params.customerName,
+            customer_email: params.customerEmail,
+            customer_phone: params.customerPhone || '',
+            callback_url: params.callbackUrl,
+            return_url: params.returnUrl,
+            amount: params.amount,
+            fee_merchant: 0,
+            fee_customer: customerFee,
+            total_fee: customerFee,
+            amount_received: params.amount,
+            pay_code: crypto.randomInt(100000000, 999999999).toString(),
+            pay_url: null,
+            checkout_url: `${apiUrl}/api/payments/mock?reference=${reference}`,
+            status: 'UNPAID',
+            expired_time: Math.floor(Date.now() / 1000) + (params.expiredTime ?? 24 * 60 * 60),
+            order_items: params.orderItems.map(item => ({
+                sku: item.sku || item.name.toLowerCase().replace(/\s+/g, '-'),
+                name: item.name,
+                price: item.price,
+                quantity: item.quantity,
+                subtotal: item.price * item.quantity,
+            })),
+            instructions: [
+                {
+                    title: 'Mock payment',
+                    steps: ['POST /api/payments/mock with this reference and a status to simulate the callback'],
+                },
+            ],
+        };
+
+        transactions.set(reference, transaction);
+        return transaction;
+    }
+
+    async function getTransactionDetail(reference: string): Promise<GatewayTransaction> {
+        const transaction = transactions.get(reference);
+        if (!transaction) {
+            throw new Error('Transaction not found');
+        }
+        return transaction;
+    }
+
+    async function listTransactions(page = 1, perPage = 50): Promise<GatewayTransactionPage> {
+        const all = [...transactions.values()].reverse();
+        return {
+            transactions: all.slice((page - 1) * perPage, page * perPage).map(transaction => ({
+                reference: transaction.reference,
+                merchant_ref: transaction.merchant_ref,
+                payment_method: transaction.payment_method,
+                amount: transaction.amount,
+                amount_received: transaction.amount_received,
+                status: transaction.status,
+                paid_at: transaction.paid_at ?? null,
+            })),
+            page,
+            lastPage: Math.max(1, Math.ceil(all.length / perPage)),
+        };
+    }
+
+    function verifyCallback(rawBody: string, headers: Headers): CallbackEvent | null {
+        const receivedSignature = headers.get('X-Callback-Signature');
+        if (!receivedSignature || receivedSignature !== sign(rawBody)) {
+            return null;
+        }
+
+        const body = JSON.parse(rawBody);
+        return {
+            reference: body.reference,
+            merchantRef: body.merchant_ref,
+            status: mapTripayStyleStatus(body.status),
+            rawStatus: body.status,
+            amountReceived: body.amount_received ?? null,
+            paidAt: body.paid_at ?? null,
+            payload: body,
+        };
+    }
+
+    return {
+        name: 'mock',
+        getPaymentChannels,
+        createTransaction,
+        getTransactionDetail,
+        listTransactions,
+        verifyCallback,
+        mapStatus: mapTripayStyleStatus,
+    };
+}
+
+// Move a mock transaction to `status` and deliver the signed callback
+export async function simulateCallback(reference: string, status: MockCallbackStatus): Promise<{ status: number; body: unknown }> {
+    const transaction = transactions.get(reference);
+    if (!transaction) {
+        throw new Error('Transaction not found');
+    }
+
+    const paidAt = Math.floor(Date.now() / 1000);
+    transaction.status = status;
+    transaction.paid_at = status === 'PAID' ? paidAt : transaction.paid_at ?? null;
+
+    const rawBody = JSON.stringify({
+        reference: transaction.reference,
+        merchant_ref: transaction.merchant_ref,
+        payment_method: transaction.payment_name,
+        payment_method_code: transaction.payment_method,
+        total_amount: transaction.amount + transaction.fee_customer,
+        fee_merchant: transaction.fee_merchant,
+        fee_customer: transaction.fee_customer,
+        total_fee: transaction.total_fee,
+        amount_received: transaction.amount_received,
+        is_closed_payment: 1,
+        status,
+        paid_at: status === 'PAID' ? paidAt : null,
+        note: 'Simulated by mock gateway',
+    });
+
+    const response = await fetch(transaction.callback_url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Callback-Event': 'payment_status',
+            'X-Callback-Signature': sign(rawBody),
+        },
+        body: rawBody,
+    });
+
+    return { status: response.status, body: await response.json().catch(() => null) };
+}
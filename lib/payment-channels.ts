@@ -0,0 +1,95 @@
+// lib/payment-channels.ts
+// Cached catalog of the gateway's payment channels. Channels rarely change,
+// so they are fetched at most once per TTL per server instance; if a refresh
+// fails the previous list keeps being served.
+import { getPaymentGateway } from './payments';
+import { calculateChannelFee, PaymentChannel } from './payment-gateway';
+
+export type ChannelGroupKey = 'virtual_account' | 'ewallet' | 'retail' | 'others';
+
+export interface ChannelQuote extends PaymentChannel {
+    fee: number | null;   // customer fee for the quoted amount
+    total: number | null; // amount + fee
+}
+
+export interface ChannelGroup {
+    key: ChannelGroupKey;
+    label: string;
+    channels: ChannelQuote[];
+}
+
+// Gateway group names per catalog group
+const GROUPS: Array<{ key: ChannelGroupKey; label: string; gatewayGroups: string[] }> = [
+    { key: 'virtual_account', label: 'Virtual Account', gatewayGroups: ['Virtual Account'] },
+    { key: 'ewallet', label: 'E-Wallet', gatewayGroups: ['E-Wallet'] },
+    { key: 'retail', label: 'Retail', gatewayGroups: ['Convenience Store', 'Retail'] },
+];
+
+const DEFAULT_TTL_SECONDS = 10 * 60;
+
+let cache: { channels: PaymentChannel[]; fetchedAt: number } | null = null;
+let pending: Promise<PaymentChannel[]> | null = null;
+
+function ttlMs(): number {
+    const seconds = Number(process.env.PAYMENT_CHANNELS_TTL_SECONDS);
+    return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+async function refresh(): Promise<PaymentChannel[]> {
+    try {
+        const channels = await getPaymentGateway().getPaymentChannels();
+        cache = { channels, fetchedAt: Date.now() };
+        return channels;
+    } catch (error) {
+        if (cache) {
+            console.error('Failed to refresh payment channels, serving cached list:', error);
+            return cache.channels;
+        }
+        throw error;
+    } finally {
+        pending = null;
+    }
+}
+
+// Active channels, from cache when fresh. Concurrent misses share one request.
+export async function getActiveChannels(): Promise<{ channels: PaymentChannel[]; fetchedAt: string }> {
+    if (!cache || Date.now() - cache.fetchedAt > ttlMs()) {
+        pending = pending || refresh();
+        await pending;
+    }
+
+    return {
+        channels: cache!.channels.filter(ch => ch.active),
+        fetchedAt: new Date(cache!.fetchedAt).toISOString(),
+    };
+}
+
+export function clearChannelCache() {
+    cache = null;
+}
+
+export function getChannelGroupKey(channel: Pick<PaymentChannel, 'group'>): ChannelGroupKey {
+    return GROUPS.find(group => group.gatewayGroups.includes(channel.group))?.key || 'others';
+}
+
+// Customer fee and grand total per channel for `amount`, using the channel's
+// own fee rule (the same flat + percent rule with min/max the gateway applies)
+export function quoteChannels(channels: PaymentChannel[], amount?: number | null): ChannelQuote[] {
+    return channels.map(channel => {
+        const fee = amount ? calculateChannelFee(channel, amount) : null;
+        return { ...channel, fee, total: amount && fee !== null ? amount + fee : null };
+    });
+}
+
+export function groupChannels(channels: ChannelQuote[]): ChannelGroup[] {
+    const groups: ChannelGroup[] = [
+        ...GROUPS.map(group => ({ key: group.key, label: group.label, channels: [] as ChannelQuote[] })),
+        { key: 'others', label: 'Lainnya', channels: [] },
+    ];
+
+    for (const channel of channels) {
+        groups.find(group => group.key === getChannelGroupKey(channel))!.channels.push(channel);
+    }
+
+    return groups.filter(group => group.channels.length > 0);
+}
@@ -0,0 +1,150 @@
+// lib/payment-gateway.ts
+// Gateway-neutral payment interface implemented by lib/tripay.ts and
+// lib/mock-gateway.ts. Use getPaymentGateway() from lib/payments.ts to get
+// the configured implementation.
+import type { TransactionStatus } from './payments';
+
+export interface FeeRule {
+    flat: number;
+    percent: string;
+}
+
+export interface PaymentChannel {
+    group: string;
+    code: string;
+    name: string;
+    type: string;
+    fee_merchant: FeeRule;
+    fee_customer: FeeRule;
+    total_fee: FeeRule;
+    minimum_fee: number;
+    maximum_fee: number;
+    icon_url: string;
+    active: boolean;
+}
+
+export interface OrderItem {
+    sku?: string;
+    name: string;
+    price: number;
+    quantity: number;
+}
+
+export interface GatewayTransaction {
+    reference: string;
+    merchant_ref: string;
+    payment_selection_type: string;
+    payment_method: string;
+    payment_name: string;
+    customer_name: string;
+    customer_email: string;
+    customer_phone: string;
+    callback_url: string;
+    return_url: string;
+    amount: number;
+    fee_merchant: number;
+    fee_customer: number;
+    total_fee: number;
+    amount_received: number;
+    pay_code: string;
+    pay_url: string | null;
+    checkout_url: string;
+    status: string;
+    paid_at?: number | null;
+    expired_time: number;
+    order_items: Array<{
+        sku: string;
+        name: string;
+        price: number;
+        quantity: number;
+        subtotal: number;
+    }>;
+    instructions: Array<{
+        title: string;
+        steps: string[];
+    }>;
+    qr_string?: string;
+    qr_url?: string;
+}
+
+export interface CreateTransactionParams {
+    method: string;
+    merchantRef: string;
+    amount: number;
+    customerName: string;
+    customerEmail: string;
+    customerPhone?: string;
+    orderItems: OrderItem[];
+    callbackUrl: string;
+    returnUrl: string;
+    expiredTime?: number; // in seconds, default 24 hours
+}
+
+// Row of the merchant transaction list
+export interface GatewayTransactionSummary {
+    reference: string;
+    merchant_ref: string;
+    payment_method: string;
+    amount: number;
+    amount_received: number;
+    status: string;
+    paid_at: number | null;
+}
+
+export interface GatewayTransactionPage {
+    transactions: GatewayTransactionSummary[];
+    page: number;
+    lastPage: number;
+}
+
+// A verified status notification, already mapped to our transaction status
+export interface CallbackEvent {
+    reference: string;
+    merchantRef: string;
+    status: TransactionStatus;
+    rawStatus: string;
+    amountReceived: number | null;
+    paidAt: number | string | null;
+    payload: unknown;
+}
+
+export interface PaymentGateway {
+    name: string;
+    getPaymentChannels(): Promise<PaymentChannel[]>;
+    createTransaction(params: CreateTransactionParams): Promise<GatewayTransaction>;
+    getTransactionDetail(reference: string): Promise<GatewayTransaction>;
+    // Merchant transactions, newest first
+    listTransactions(page?: number, perPage?: number): Promise<GatewayTransactionPage>;
+    // Returns null when the signature does not match
+    verifyCallback(rawBody: string, headers: Headers): CallbackEvent | null;
+    mapStatus(status: string): TransactionStatus;
+}
+
+// Gateway statuses follow Tripay's vocabulary (PAID, EXPIRED, FAILED, REFUND, UNPAID)
+export function mapTripayStyleStatus(status: string): TransactionStatus {
+    switch (status) {
+        case 'PAID':
+            return 'SUCCESS';
+        case 'EXPIRED':
+            return 'EXPIRED';
+        case 'FAILED':
+            return 'FAILED';
+        case 'REFUND':
+            return 'REFUNDED';
+        default:
+            return 'PENDING';
+    }
+}
+
+// Customer fee for a channel, following the flat + percent rule with min/max caps
+export function calculateChannelFee(channel: Pick<PaymentChannel, 'fee_customer' | 'minimum_fee' | 'maximum_fee'>, amount: number): number {
+    const flat = Number(channel.fee_customer.flat) || 0;
+    const percent = parseFloat(channel.fee_customer.percent) || 0;
+    let fee = flat + Math.ceil(amount * percent / 100);
+
+    if (fee <= 0) return 0;
+    if (channel.minimum_fee && fee < channel.minimum_fee) fee = channel.minimum_fee;
+    if (channel.maximum_fee && fee > channel.maximum_fee) fee = channel.maximum_fee;
+
+    return fee;
+}
@@ -0,0 +1,356 @@
+// lib/payments.ts
+import { supabaseAdmin } from './supabase';
+import { grantPlan, upgradeCreditStillApplies } from './subscriptions';
+import type { PaymentGateway } from './payment-gateway';
+import { createTripayGateway, tripayConfigFromEnv } from './tripay';
+import { createMockGateway } from './mock-gateway';
+import { applyRefund, RefundError } from './refunds';
+import { formatRupiah, recordBillingEvent } from './billing-history';
+import { describePlanDuration, getPlan } from './plans';
+import { setRedemptionStatus } from './vouchers';
+import { sendReceiptEmail } from './receipts';
+import { issueGift } from './gifts';
+import { rewardReferral } from './referrals';
+
+export type TransactionStatus = 'PENDING' | 'SUCCESS' | 'EXPIRED' | 'FAILED' | 'REFUNDED';
+
+export interface PaymentEventInput {
+    reference: string;
+    merchantRef: string;
+    status: TransactionStatus;
+    amountReceived?: number | null;
+    paidAt?: number | string | null;
+    payload?: unknown;
+    source: 'callback' | 'check-status' | 'reconcile' | 'sweeper';
+}
+
+export type PaymentEventOutcome =
+    | 'applied'
+    | 'duplicate'
+    | 'noop'
+    | 'rejected'
+    | 'not_found';
+
+export interface PaymentEventResult {
+    outcome: PaymentEventOutcome;
+    status?: TransactionStatus;
+    previousStatus?: TransactionStatus;
+    granted?: boolean;
+    message?: string;
+}
+
+// Which status a transaction may move to from its current status.
+// Anything not listed here is treated as an out-of-order or replayed event.
+const ALLOWED_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+    PENDING: ['SUCCESS', 'EXPIRED', 'FAILED'],
+    SUCCESS: ['REFUNDED'],
+    EXPIRED: [],
+    FAILED: [],
+    REFUNDED: [],
+};
+
+let gateway: PaymentGateway | null = null;
+
+// Configured payment gateway, selected with PAYMENT_GATEWAY (tripay or mock)
+export function getPaymentGateway(): PaymentGateway {
+    if (!gateway) {
+        const name = (process.env.PAYMENT_GATEWAY || 'tripay').toLowerCase();
+
+        switch (name) {
+            case 'mock':
+                gateway = createMockGateway();
+                break;
+            case 'tripay':
+                gateway = createTripayGateway(tripayConfigFromEnv());
+                break;
+            default:
+                throw new Error(`Unknown payment gateway: ${name}`);
+        }
+    }
+
+    return gateway;
+}
+
+export function isFinalStatus(status: TransactionStatus): boolean {
+    return ALLOWED_TRANSITIONS[status].length === 0;
+}
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+    return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+function toIsoDate(value: number | string | null | undefined): string | null {
+    if (value === null || value === undefined || value === '') return null;
+    // Tripay sends paid_at as a unix timestamp in seconds
+    if (typeof value === 'number') return new Date(value * 1000).toISOString();
+    return new Date(value).toISOString();
+}
+
+async function finishEvent(eventId: string, result: PaymentEventResult): Promise<PaymentEventResult> {
+    const { error } = await supabaseAdmin
+        .from('payment_events')
+        .update({
+            outcome: result.outcome,
+            message: result.message || null,
+            processed_at: new Date().toISOString(),
+        })
+        .eq('id', eventId);
+
+    if (error) {
+        console.error('Error updating payment event:', error);
+    }
+
+    return result;
+}
+
+// Drop the ledger entry of an event that could not be applied, so the
+// gateway's retry of the same (reference, status) is processed again
+async function forgetEvent(eventId: string) {
+    const { error } = await supabaseAdmin
+        .from('payment_events')
+        .delete()
+        .eq('id', eventId);
+
+    if (error) {
+        console.error('Error deleting payment event:', error);
+    }
+}
+
+interface GrantableTransaction {
+    id: string;
+    user_id: string;
+    plan_id: string;
+    amount: number;
+    quantity?: number | null;
+    gift_recipient_email?: string | null;
+    gift_message?: string | null;
+    proration_credit?: number | null;
+    upgrade_from_plan_id?: string | null;
+    upgrade_from_expires_at?: string | null;
+}
+
+// Grant the purchased plan for a successful transaction and remember
+// which period it paid for
+async function grantSubscription(transaction: GrantableTransaction) {
+    const plan = await getPlan(transaction.plan_id);
+
+    if (!plan) {
+        throw new Error(`Plan ${transaction.plan_id} not found`);
+    }
+
+    const period = await grantPlan(transaction.user_id, plan, transaction.quantity || 1);
+
+    const { error } = await supabaseAdmin
+        .from('transactions')
+        .update({
+            period_start: period.startsAt,
+            period_end: period.expiresAt,
+        })
+        .eq('id', transaction.id);
+
+    if (error) {
+        console.error('Error saving transaction period:', error);
+    }
+
+    await recordBillingEvent({
+        userId: transaction.user_id,
+        type: 'payment',
+        title: `Pembayaran ${plan.name}`,
+        description: `Pembayaran ${formatRupiah(transaction.amount)} untuk ${plan.name} ` +
+            `(${describePlanDuration(plan, transaction.quantity || 1)}), aktif hingga ` +
+            `${new Date(period.expiresAt!).toLocaleDateString('id-ID')}.`,
+        transactionId: transaction.id,
+        amount: transaction.amount,
+        metadata: { period_start: period.startsAt, period_end: period.expiresAt },
+    });
+}
+
+// Claim and apply the subscription grant for a transaction. Only the caller
+// that sets granted_at applies it; if the grant fails, the claim and the
+// ledger entry are rolled back so the gateway's retry is processed again.
+async function grantOnce(transaction: GrantableTransaction, eventId: string): Promise<boolean> {
+    const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('transactions')
+        .update({ granted_at: new Date().toISOString() })
+        .eq('id', transaction.id)
+        .is('granted_at', null)
+        .select('id')
+        .maybeSingle();
+
+    if (claimError) {
+        throw claimError;
+    }
+
+    if (!claimed) {
+        return false;
+    }
+
+    try {
+        // The upgrade was paid at a discount for time on the old plan that is
+        // no longer there: refund the payment instead of granting the plan
+        if ((transaction.proration_credit || 0) > 0 && !(await upgradeCreditStillApplies(transaction))) {
+            console.warn(`Upgrade credit of transaction ${transaction.id} no longer applies, refunding`);
+            await applyRefund({
+                transactionId: transaction.id,
+                source: 'system',
+                reason: 'Kredit sisa paket tidak berlaku lagi karena paket berubah sebelum pembayaran',
+            });
+            return false;
+        }
+
+        // Gift purchases issue a code for the recipient instead of a plan for the payer
+        if (transaction.gift_recipient_email) {
+            await issueGift(transaction);
+        } else {
+            await grantSubscription(transaction);
+        }
+    } catch (error) {
+        await supabaseAdmin
+            .from('transactions')
+            .update({ granted_at: null })
+            .eq('id', transaction.id);
+        await forgetEvent(eventId);
+        throw error;
+    }
+
+    await sendReceiptEmail(transaction.id);
+
+    // A referred user's first payment rewards whoever referred them. This
+    // must never fail the payment itself; the subscription sweeper retries
+    // rewards that failed here (see retryReferralRewards).
+    try {
+        await rewardReferral(transaction);
+    } catch (referralError) {
+        console.error(`Error rewarding referral for transaction ${transaction.id}:`, referralError);
+    }
+
+    return true;
+}
+
+// The gateway reported a refund: revoke whatever has not been refunded yet.
+// A redelivery after a failure finishes the recorded refund inside
+// applyRefund, which then reports 409 as nothing is left to refund.
+async function refundFromGateway(transactionId: string, eventId: string) {
+    try {
+        await applyRefund({ transactionId, source: 'gateway', reason: 'Refund dari payment gateway' });
+    } catch (error) {
+        // Already refunded in full, e.g. by an admin before the callback arrived
+        if (error instanceof RefundError && error.status === 409) return;
+
+        await forgetEvent(eventId);
+        throw error;
+    }
+}
+
+// Record a gateway status event in the payment_events ledger and apply it
+// to the transaction. Every (reference, status) pair is processed once:
+// redelivered callbacks are acknowledged without touching the transaction
+// or the subscription again.
+export async function applyPaymentEvent(input: PaymentEventInput): Promise<PaymentEventResult> {
+    const { data: event, error: eventError } = await supabaseAdmin
+        .from('payment_events')
+        .insert({
+            reference: input.reference,
+            merchant_ref: input.merchantRef,
+            status: input.status,
+            amount_received: input.amountReceived ?? null,
+            source: input.source,
+            payload: input.payload ?? null,
+        })
+        .select('id')
+        .single();
+
+    if (eventError) {
+        if (eventError.code === '23505') { // Unique violation on (reference, status)
+            return { outcome: 'duplicate', message: 'Event already processed' };
+        }
+        throw eventError;
+    }
+
+    const { data: transaction, error: fetchError } = await supabaseAdmin
+        .from('transactions')
+        .select('*')
+        .eq('id', input.merchantRef)
+        .maybeSingle();
+
+    // Not kept in the ledger: the transaction may only be missing for now,
+    // and a later delivery must still be able to apply the event
+    if (fetchError) {
+        await forgetEvent(event.id);
+        throw fetchError;
+    }
+
+    if (!transaction) {
+        await forgetEvent(event.id);
+        return { outcome: 'not_found', message: 'Transaction not found' };
+    }
+
+    if (transaction.payment_reference && transaction.payment_reference !== input.reference) {
+        return finishEvent(event.id, { outcome: 'rejected', message: 'Reference does not match transaction' });
+    }
+
+    const previousStatus = transaction.status as TransactionStatus;
+    const nextStatus = input.status;
+
+    if (previousStatus === nextStatus) {
+        // A previous delivery may have updated the status but failed to grant or refund
+        const granted = nextStatus === 'SUCCESS' && !transaction.granted_at
+            ? await grantOnce(transaction, event.id)
+            : false;
+        if (nextStatus === 'REFUNDED') {
+            await refundFromGateway(transaction.id, event.id);
+        }
+        return finishEvent(event.id, { outcome: granted ? 'applied' : 'noop', status: nextStatus, previousStatus, granted });
+    }
+
+    if (!canTransition(previousStatus, nextStatus)) {
+        console.warn(`Rejected transaction ${transaction.id} transition ${previousStatus} -> ${nextStatus}`);
+        return finishEvent(event.id, {
+            outcome: 'rejected',
+            status: previousStatus,
+            previousStatus,
+            message: `Invalid transition ${previousStatus} -> ${nextStatus}`,
+        });
+    }
+
+    // Compare-and-set on the current status so two concurrent deliveries
+    // cannot both move the transaction forward
+    const { data: updated, error: updateError } = await supabaseAdmin
+        .from('transactions')
+        .update({
+            status: nextStatus,
+            amount_received: input.amountReceived ?? transaction.amount_received ?? null,
+            paid_at: toIsoDate(input.paidAt) ?? transaction.paid_at ?? null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', transaction.id)
+        .eq('status', previousStatus)
+        .select('id')
+        .maybeSingle();
+
+    if (updateError) {
+        await forgetEvent(event.id);
+        throw updateError;
+    }
+
+    if (!updated) {
+        return finishEvent(event.id, {
+            outcome: 'duplicate',
+            previousStatus,
+            message: 'Transaction was updated concurrently',
+        });
+    }
+
+    if (transaction.voucher_id && nextStatus !== 'REFUNDED') {
+        // Paid checkouts consume the voucher, expired or failed ones free it up again
+        await setRedemptionStatus(transaction.id, nextStatus === 'SUCCESS' ? 'redeemed' : 'released');
+    }
+
+    const granted = nextStatus === 'SUCCESS' ? await grantOnce(transaction, event.id) : false;
+
+    if (nextStatus === 'REFUNDED') {
+        await refundFromGateway(transaction.id, event.id);
+    }
+
+    return finishEvent(event.id, { outcome: 'applied', status: nextStatus, previousStatus, granted });
+}
@@ -0,0 +1,186 @@
+// lib/plans.ts
+import { supabaseAdmin } from './supabase';
+
+export interface Plan {
+    id: string;
+    name: string;
+    price: number;
+    daily_limit: number;
+    skip_limit: number | null;
+    features: string[] | null;
+    duration_type: string | null;
+    duration_value: number | null;
+    is_popular?: boolean;
+    seats?: number | null; // people covered, including the owner (family/duo plans > 1)
+    trial_days?: number | null; // free trial length, null when the plan has no trial
+    // Capabilities, see entitlements.ts for the defaults when unset (-1 is unlimited)
+    ai_generation_limit?: number | null;
+    lyrics_enabled?: boolean | null;
+    playlist_limit?: number | null;
+    audio_quality?: string | null;
+}
+
+export interface PlanCharge {
+    plan: Plan;
+    quantity: number;
+    unitPrice: number;
+    subtotal: number;
+    discount: number;
+    voucher: { id: string; code: string } | null;
+    credit: number; // unused value of the plan being upgraded from
+    creditFromPlanId: string | null;
+    creditUntil: string | null; // end of the paid time the credit covers
+    amount: number;
+    orderItems: Array<{
+        sku: string;
+        name: string;
+        price: number;
+        quantity: number;
+    }>;
+}
+
+// Maximum number of plan terms that can be bought in one checkout
+export const MAX_PLAN_QUANTITY = 12;
+
+export class PlanChargeError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'PlanChargeError';
+        this.status = status;
+    }
+}
+
+export async function getPlan(planId: string): Promise<Plan | null> {
+    const { data, error } = await supabaseAdmin
+        .from('plans')
+        .select('*')
+        .eq('id', planId)
+        .single();
+
+    if (error || !data) {
+        return null;
+    }
+
+    return data as Plan;
+}
+
+// Move a date `months` calendar months on in UTC, keeping the time of day.
+// The day is capped at the end of the target month, so Jan 31 + 1 month is
+// Feb 28 (or 29), not Mar 2 or 3.
+function addUTCMonths(from: Date, months: number): Date {
+    const result = new Date(from);
+    const day = result.getUTCDate();
+
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(day, lastDay));
+
+    return result;
+}
+
+// Add `count` plan terms (duration_value x duration_type) to a date. Uses
+// UTC so the result does not depend on the server's timezone.
+export function addPlanDuration(from: Date, plan: Pick<Plan, 'duration_type' | 'duration_value'>, count = 1): Date {
+    const result = new Date(from);
+    const value = (plan.duration_value || 1) * count;
+
+    switch (plan.duration_type || 'month') {
+        case 'day':
+            result.setUTCDate(result.getUTCDate() + value);
+            return result;
+        case 'week':
+            result.setUTCDate(result.getUTCDate() + value * 7);
+            return result;
+        case 'year':
+            return addUTCMonths(from, value * 12);
+        case 'month':
+        default:
+            return addUTCMonths(from, value);
+    }
+}
+
+// Human readable term, e.g. "1 Bulan" or "3 Bulan"
+export function describePlanDuration(plan: Pick<Plan, 'duration_type' | 'duration_value'>, count = 1): string {
+    const value = (plan.duration_value || 1) * count;
+    const units: Record<string, string> = {
+        day: 'Hari',
+        week: 'Minggu',
+        month: 'Bulan',
+        year: 'Tahun',
+    };
+
+    return `${value} ${units[plan.duration_type || 'month'] || 'Bulan'}`;
+}
+
+// Compute what the user has to pay for `quantity` terms of a plan.
+// The price always comes from the plans table, never from the client.
+export function calculatePlanCharge(plan: Plan, quantity = 1): PlanCharge {
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_PLAN_QUANTITY) {
+        throw new PlanChargeError(`Quantity must be between 1 and ${MAX_PLAN_QUANTITY}`);
+    }
+
+    const unitPrice = Number(plan.price);
+    if (!Number.isFinite(unitPrice) || unitPrice <= 0) {
+        throw new PlanChargeError('This plan cannot be purchased');
+    }
+
+    return {
+        plan,
+        quantity,
+        unitPrice,
+        subtotal: unitPrice * quantity,
+        discount: 0,
+        voucher: null,
+        credit: 0,
+        creditFromPlanId: null,
+        creditUntil: null,
+        amount: unitPrice * quantity,
+        orderItems: [
+            {
+                sku: `plan-${plan.id}`,
+                name: `${plan.name} (${describePlanDuration(plan)})`,
+                price: unitPrice,
+                quantity,
+            },
+        ],
+    };
+}
+
+// Apply a discount and/or upgrade credit to a charge. Once the total is
+// adjusted the order items are collapsed into one line, because the gateway
+// requires item subtotals to add up to the charged amount.
+export function adjustCharge(
+    charge: PlanCharge,
+    changes: Partial<Pick<PlanCharge, 'discount' | 'voucher' | 'credit' | 'creditFromPlanId' | 'creditUntil'>>
+): PlanCharge {
+    const next = { ...charge, ...changes };
+    const amount = next.subtotal - next.discount - next.credit;
+
+    if (amount <= 0) {
+        throw new PlanChargeError('Charge amount must be greater than zero');
+    }
+
+    if (next.discount === 0 && next.credit === 0) {
+        return { ...next, amount };
+    }
+
+    const labels = [`${next.plan.name} (${describePlanDuration(next.plan)})${next.quantity > 1 ? ` x${next.quantity}` : ''}`];
+    if (next.voucher) labels.push(`Voucher ${next.voucher.code}`);
+    if (next.credit > 0) labels.push('Kredit sisa paket');
+
+    return {
+        ...next,
+        amount,
+        orderItems: [
+            {
+                sku: `plan-${next.plan.id}${next.voucher ? `-${next.voucher.code.toLowerCase()}` : ''}${next.credit > 0 ? '-upgrade' : ''}`,
+                name: labels.join(' - '),
+                price: amount,
+                quantity: 1,
+            },
+        ],
+    };
+}
@@ -0,0 +1,126 @@
+// lib/play-credits.ts
+// Bonus play credits on top of the daily allowance. Credits are granted by
+// admins, referrals or promotions as rows in play_credit_grants, each with
+// its own expiry. Once the day's plays are used up, consume_quota draws one
+// credit per play from the grant that expires first (see quota.ts).
+import { supabaseAdmin } from './supabase';
+
+export type CreditSource = 'admin' | 'referral' | 'promo';
+
+export const CREDIT_SOURCES: CreditSource[] = ['admin', 'referral', 'promo'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EXPIRY_DAYS = 30;
+
+export class PlayCreditError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'PlayCreditError';
+        this.status = status;
+    }
+}
+
+export interface CreditGrant {
+    id: string;
+    user_id: string;
+    source: CreditSource;
+    amount: number;
+    remaining: number;
+    reason: string | null;
+    granted_by: string | null;
+    expires_at: string;
+    created_at: string;
+}
+
+export interface CreditBalance {
+    balance: number;
+    // The credits that run out first, so clients can warn about them
+    nextExpiry: { amount: number; expiresAt: string } | null;
+}
+
+export function getCreditExpiryDays(): number {
+    const days = Number(process.env.PLAY_CREDIT_EXPIRY_DAYS);
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_EXPIRY_DAYS;
+}
+
+export async function grantPlayCredits(grant: {
+    userId: string;
+    amount: number;
+    source: CreditSource;
+    reason?: string | null;
+    grantedBy?: string | null;
+    // Defaults to PLAY_CREDIT_EXPIRY_DAYS from now
+    expiresAt?: Date;
+}, now = new Date()): Promise<CreditGrant> {
+    if (!Number.isInteger(grant.amount) || grant.amount <= 0) {
+        throw new PlayCreditError('amount must be a positive whole number');
+    }
+    if (!CREDIT_SOURCES.includes(grant.source)) {
+        throw new PlayCreditError(`source must be one of: ${CREDIT_SOURCES.join(', ')}`);
+    }
+
+    const expiresAt = grant.expiresAt || new Date(now.getTime() + getCreditExpiryDays() * DAY_MS);
+    if (expiresAt <= now) {
+        throw new PlayCreditError('expires_at must be in the future');
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('play_credit_grants')
+        .insert({
+            user_id: grant.userId,
+            source: grant.source,
+            amount: grant.amount,
+            remaining: grant.amount,
+            reason: grant.reason || null,
+            granted_by: grant.grantedBy || null,
+            expires_at: expiresAt.toISOString(),
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data as CreditGrant;
+}
+
+// Credits the user can still spend
+export async function getCreditBalance(userId: string, now = new Date()): Promise<CreditBalance> {
+    const { data, error } = await supabaseAdmin
+        .from('play_credit_grants')
+        .select('remaining, expires_at')
+        .eq('user_id', userId)
+        .gt('remaining', 0)
+        .gt('expires_at', now.toISOString())
+        .order('expires_at', { ascending: true });
+
+    if (error) throw error;
+
+    const grants = data || [];
+    return {
+        balance: grants.reduce((sum, grant) => sum + grant.remaining, 0),
+        nextExpiry: grants.length > 0 ? { amount: grants[0].remaining, expiresAt: grants[0].expires_at } : null,
+    };
+}
+
+export async function listCreditGrants(userId: string): Promise<CreditGrant[]> {
+    const { data, error } = await supabaseAdmin
+        .from('play_credit_grants')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as CreditGrant[];
+}
+
+// Credits as sent to clients
+export function serializeCreditBalance(credits: CreditBalance) {
+    return {
+        balance: credits.balance,
+        next_expiry: credits.nextExpiry && {
+            amount: credits.nextExpiry.amount,
+            expires_at: credits.nextExpiry.expiresAt,
+        },
+    };
+}
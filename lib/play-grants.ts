@@ -0,0 +1,108 @@
+// lib/play-grants.ts
+// Signed play grants. POST /api/play/authorize counts a play and hands out a
+// short-lived grant naming the user, the track and the YouTube video it
+// resolved; playback, history recording and skip accounting check that grant
+// instead of trusting the client to report what it played.
+import crypto from 'crypto';
+
+// How long a grant stays valid after it is issued
+const DEFAULT_TTL_SECONDS = 30 * 60;
+
+export class PlayGrantError extends Error {
+    status: number;
+
+    constructor(message: string, status = 403) {
+        super(message);
+        this.name = 'PlayGrantError';
+        this.status = status;
+    }
+}
+
+export interface PlayGrant {
+    playId: number | null; // usage_events entry of the counted play
+    userId: string;
+    trackId: string;
+    videoId: string;
+    expiresAt: string;
+}
+
+// Compact form carried inside the token
+interface GrantPayload {
+    pid: number | null;
+    uid: string;
+    tid: string;
+    vid: string;
+    exp: number; // unix seconds
+}
+
+export function getPlayGrantTtlSeconds(): number {
+    const ttl = Number(process.env.PLAY_GRANT_TTL_SECONDS);
+    return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+function getSecret(): string {
+    const secret = process.env.PLAY_GRANT_SECRET;
+    if (!secret) {
+        throw new Error('PLAY_GRANT_SECRET is not configured');
+    }
+    return secret;
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+export function signPlayGrant(grant: Omit<PlayGrant, 'expiresAt'>, now = new Date()): { token: string; grant: PlayGrant } {
+    const exp = Math.floor(now.getTime() / 1000) + getPlayGrantTtlSeconds();
+    const payload: GrantPayload = { pid: grant.playId, uid: grant.userId, tid: grant.trackId, vid: grant.videoId, exp };
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+        token: `${data}.${sign(data)}`,
+        grant: { ...grant, expiresAt: new Date(exp * 1000).toISOString() },
+    };
+}
+
+// Checks the signature, expiry and owner of a grant, and the track when one
+// is given. Throws PlayGrantError when the grant cannot be used.
+export function verifyPlayGrant(token: unknown, userId: string, trackId?: string | null, now = new Date()): PlayGrant {
+    if (typeof token !== 'string' || !token) {
+        throw new PlayGrantError('play_grant is required', 400);
+    }
+
+    const [data, signature, ...rest] = token.split('.');
+    if (!data || !signature || rest.length > 0) {
+        throw new PlayGrantError('Invalid play grant');
+    }
+
+    const expected = Buffer.from(sign(data));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+        throw new PlayGrantError('Invalid play grant');
+    }
+
+    let payload: GrantPayload;
+    try {
+        payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    } catch {
+        throw new PlayGrantError('Invalid play grant');
+    }
+
+    if (payload.uid !== userId) {
+        throw new PlayGrantError('Play grant belongs to another user');
+    }
+    if (trackId && payload.tid !== trackId) {
+        throw new PlayGrantError('Play grant is for another track');
+    }
+    if (payload.exp * 1000 < now.getTime()) {
+        throw new PlayGrantError('Play grant has expired');
+    }
+
+    return {
+        playId: payload.pid,
+        userId: payload.uid,
+        trackId: payload.tid,
+        videoId: payload.vid,
+        expiresAt: new Date(payload.exp * 1000).toISOString(),
+    };
+}
@@ -0,0 +1,161 @@
+// lib/quota.ts
+// Quota service for daily plays, skips and AI generations. Limits come from
+// the user's entitlements; consuming goes through the consume_quota Postgres
+// function, which checks and records a unit in the usage_events ledger in one
+// locked step so parallel requests (two tabs, double clicks) cannot go over
+// the limit. Counts belong to the user's local day and reset at their local
+// midnight. Plays past the daily limit can be paid for with bonus credits
+// (see play-credits.ts).
+import { supabaseAdmin } from './supabase';
+import { Entitlements, getEntitlements } from './entitlements';
+import { getUserTimeZone, localDay, nextLocalMidnight } from './timezone';
+import { getCreditBalance } from './play-credits';
+
+export type QuotaKind = 'plays' | 'skips' | 'ai_generations';
+
+const CAPABILITY: Record<QuotaKind, 'plays' | 'skips' | 'aiGenerations'> = {
+    plays: 'plays',
+    skips: 'skips',
+    ai_generations: 'aiGenerations',
+};
+
+export interface QuotaResult {
+    kind: QuotaKind;
+    planId: string;
+    used: number;
+    limit: number; // -1 is unlimited
+    remaining: number; // -1 when unlimited
+    unlimited: boolean;
+    // Whether this call used up one unit (always false for checkQuota)
+    consumed: boolean;
+    // Ledger entry of the unit used up by this call
+    eventId: number | null;
+    // The unit was paid for with a bonus credit
+    viaCredit: boolean;
+    // Bonus play credits left (always 0 for other kinds and blocked users)
+    credits: number;
+    viaFamily: boolean;
+    // The user's paid period ran out and was just moved on
+    expired: boolean;
+    blocked: boolean;
+    day: string; // the user's local day the counter belongs to
+    resetsAt: string; // next local midnight
+    timeZone: string;
+}
+
+interface QuotaPeriod {
+    day: string;
+    resetsAt: string;
+    timeZone: string;
+}
+
+async function quotaPeriod(userId: string, now: Date): Promise<QuotaPeriod> {
+    const timeZone = await getUserTimeZone(userId, now);
+    return { day: localDay(now, timeZone), resetsAt: nextLocalMidnight(now, timeZone).toISOString(), timeZone };
+}
+
+function buildResult(
+    kind: QuotaKind,
+    entitlements: Entitlements,
+    period: QuotaPeriod,
+    used: number,
+    consumed: boolean,
+    credits: number,
+    eventId: number | null = null,
+    viaCredit = false
+): QuotaResult {
+    const limit = entitlements[CAPABILITY[kind]];
+    const unlimited = limit < 0;
+
+    return {
+        kind,
+        planId: entitlements.planId,
+        used,
+        limit: unlimited ? -1 : limit,
+        remaining: unlimited ? -1 : Math.max(0, limit - used),
+        unlimited,
+        consumed,
+        eventId,
+        viaCredit,
+        credits,
+        viaFamily: entitlements.viaFamily,
+        expired: entitlements.expired,
+        blocked: !!entitlements.blocked,
+        ...period,
+    };
+}
+
+// Units counted today, from the usage ledger
+async function readUsage(userId: string, kind: QuotaKind, day: string): Promise<number> {
+    const { count, error } = await supabaseAdmin
+        .from('usage_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('kind', kind)
+        .eq('day', day);
+
+    if (error) throw error;
+    return count || 0;
+}
+
+// Credits only ever pay for plays, and not while the user is blocked
+function usesCredits(kind: QuotaKind, entitlements: Entitlements): boolean {
+    return kind === 'plays' && !entitlements.blocked;
+}
+
+async function readCredits(userId: string, kind: QuotaKind, entitlements: Entitlements, now: Date): Promise<number> {
+    if (!usesCredits(kind, entitlements)) return 0;
+    const { balance } = await getCreditBalance(userId, now);
+    return balance;
+}
+
+// Current usage without consuming anything
+export async function checkQuota(userId: string, kind: QuotaKind, now = new Date()): Promise<QuotaResult> {
+    const entitlements = await getEntitlements(userId, now);
+    const period = await quotaPeriod(userId, now);
+    const used = await readUsage(userId, kind, period.day);
+    const credits = await readCredits(userId, kind, entitlements, now);
+    return buildResult(kind, entitlements, period, used, false, credits);
+}
+
+// Use up one unit if the limit allows it and record it in the usage ledger
+// with the track (and for plays the YouTube video) and client it was used for. Unlimited plans are still
+// counted. Past the limit a play is paid for with a bonus credit if one is
+// left; otherwise nothing changes and `consumed` is false.
+export async function consumeQuota(
+    userId: string,
+    kind: QuotaKind,
+    details: { trackId?: string | null; videoId?: string | null; client?: string | null } = {},
+    now = new Date()
+): Promise<QuotaResult> {
+    const entitlements = await getEntitlements(userId, now);
+    const period = await quotaPeriod(userId, now);
+    const limit = entitlements[CAPABILITY[kind]];
+
+    const { data, error } = await supabaseAdmin.rpc('consume_quota', {
+        p_user_id: userId,
+        p_kind: kind,
+        p_limit: limit < 0 ? -1 : limit,
+        p_day: period.day,
+        p_track_id: details.trackId || null,
+        p_client: details.client?.slice(0, 200) || null,
+        p_plan_id: entitlements.planId,
+        p_video_id: details.videoId || null,
+        p_use_credits: usesCredits(kind, entitlements),
+    });
+
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as {
+        used: number;
+        consumed: boolean;
+        event_id: number | null;
+        credit_grant_id: string | null;
+    } | null;
+    const credits = await readCredits(userId, kind, entitlements, now);
+
+    return buildResult(
+        kind, entitlements, period, row?.used || 0, !!row?.consumed, credits,
+        row?.event_id ?? null, !!row?.credit_grant_id
+    );
+}
@@ -0,0 +1,220 @@
+// lib/receipts.ts
+// Receipts (invoices) for transactions: shown by
+// /api/transactions/[id]/receipt and emailed once a payment succeeds.
+import { supabaseAdmin } from './supabase';
+import { describePlanDuration, getPlan } from './plans';
+import { formatRupiah } from './billing-history';
+import { escapeHtml, isMailerConfigured, sendMail } from './mailer';
+
+export interface Receipt {
+    number: string;
+    status: string;
+    issuedAt: string;
+    paidAt: string | null;
+    merchant: {
+        name: string;
+        address: string;
+        email: string;
+    };
+    customer: {
+        name: string;
+        email: string;
+    };
+    plan: {
+        id: string;
+        name: string;
+        duration: string;
+        quantity: number;
+    };
+    period: {
+        start: string | null;
+        end: string | null;
+    };
+    payment: {
+        method: string;
+        reference: string | null;
+    };
+    amounts: {
+        subtotal: number;
+        discount: number;
+        credit: number;
+        amount: number;
+        fee: number;
+        total: number;
+    };
+}
+
+const STATUS_LABELS: Record<string, string> = {
+    PENDING: 'Menunggu Pembayaran',
+    SUCCESS: 'Lunas',
+    EXPIRED: 'Kedaluwarsa',
+    FAILED: 'Gagal',
+    REFUNDED: 'Dikembalikan',
+};
+
+function formatDate(value: string | null): string {
+    return value
+        ? new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })
+        : '-';
+}
+
+// Build the receipt of a transaction. With `userId`, only that user's
+// transactions are returned.
+export async function getReceipt(transactionId: string, userId?: string): Promise<Receipt | null> {
+    let query = supabaseAdmin
+        .from('transactions')
+        .select('*')
+        .eq('id', transactionId);
+
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data: transaction, error } = await query.maybeSingle();
+
+    if (error) {
+        console.error('Error fetching transaction for receipt:', error);
+        return null;
+    }
+    if (!transaction) return null;
+
+    const plan = await getPlan(transaction.plan_id);
+    const { data: { user } } = await supabaseAdmin.auth.admin.getUserById(transaction.user_id);
+    const quantity = transaction.quantity || 1;
+    const subtotal = transaction.subtotal ?? transaction.amount;
+    const fee = transaction.fee_customer || 0;
+
+    return {
+        number: transaction.id,
+        status: transaction.status,
+        issuedAt: transaction.created_at,
+        paidAt: transaction.paid_at || null,
+        merchant: {
+            name: process.env.MERCHANT_NAME || 'Beatly',
+            address: process.env.MERCHANT_ADDRESS || '',
+            email: process.env.MERCHANT_EMAIL || process.env.SMTP_EMAIL || '',
+        },
+        customer: {
+            name: user?.user_metadata?.full_name || user?.email?.split('@')[0] || 'Beatly User',
+            email: user?.email || '',
+        },
+        plan: {
+            id: transaction.plan_id,
+            name: plan?.name || transaction.plan_id,
+            duration: plan ? describePlanDuration(plan, quantity) : '-',
+            quantity,
+        },
+        period: {
+            start: transaction.period_start || null,
+            end: transaction.period_end || null,
+        },
+        payment: {
+            method: transaction.payment_name || transaction.payment_method,
+            reference: transaction.payment_reference || null,
+        },
+        amounts: {
+            subtotal,
+            discount: transaction.discount || 0,
+            credit: transaction.proration_credit || 0,
+            amount: transaction.amount,
+            fee,
+            total: transaction.amount + fee,
+        },
+    };
+}
+
+export function renderReceiptHtml(receipt: Receipt): string {
+    const row = (label: string, value: string, strong = false) => `
+        <tr>
+            <td style="padding: 8px 0; color: #6b7280;">${label}</td>
+            <td style="padding: 8px 0; text-align: right; color: #111827;${strong ? ' font-weight: 700;' : ''}">${value}</td>
+        </tr>`;
+
+    const lines = [
+        row(`${escapeHtml(receipt.plan.name)} (${receipt.plan.duration})`, formatRupiah(receipt.amounts.subtotal)),
+        receipt.amounts.discount > 0 ? row('Diskon voucher', `- ${formatRupiah(receipt.amounts.discount)}`) : '',
+        receipt.amounts.credit > 0 ? row('Kredit sisa paket', `- ${formatRupiah(receipt.amounts.credit)}`) : '',
+        row('Biaya layanan', formatRupiah(receipt.amounts.fee)),
+        row('Total', formatRupiah(receipt.amounts.total), true),
+    ].join('');
+
+    return `<!DOCTYPE html>
+<html lang="id">
+<head>
+    <meta charset="utf-8">
+    <title>Kwitansi ${escapeHtml(receipt.number)}</title>
+</head>
+<body style="margin: 0; padding: 24px; background: #f3f4f6;">
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 20px; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">Kwitansi Pembayaran</h1>
+            <p style="color: #e0e7ff; margin: 5px 0 0 0; font-size: 14px;">No. ${escapeHtml(receipt.number)}</p>
+        </div>
+        <div style="background: #ffffff; padding: 30px; border-radius: 0 0 10px 10px;">
+            <table style="width: 100%; font-size: 14px; margin-bottom: 20px;">
+                <tr>
+                    <td style="vertical-align: top;">
+                        <strong>${escapeHtml(receipt.merchant.name)}</strong><br>
+                        ${escapeHtml(receipt.merchant.address)}${receipt.merchant.address ? '<br>' : ''}
+                        ${escapeHtml(receipt.merchant.email)}
+                    </td>
+                    <td style="vertical-align: top; text-align: right;">
+                        <strong>${escapeHtml(receipt.customer.name)}</strong><br>
+                        ${escapeHtml(receipt.customer.email)}
+                    </td>
+                </tr>
+            </table>
+            <table style="width: 100%; font-size: 14px; border-top: 1px solid #e5e7eb; border-bottom: 1px solid #e5e7eb; margin-bottom: 20px;">
+                ${row('Status', STATUS_LABELS[receipt.status] || receipt.status)}
+                ${row('Tanggal transaksi', formatDate(receipt.issuedAt))}
+                ${row('Tanggal pembayaran', formatDate(receipt.paidAt))}
+                ${row('Masa aktif', receipt.period.start ? `${formatDate(receipt.period.start)} - ${formatDate(receipt.period.end)}` : '-')}
+                ${row('Metode pembayaran', escapeHtml(receipt.payment.method || '-'))}
+                ${row('Referensi', escapeHtml(receipt.payment.reference || '-'))}
+            </table>
+            <table style="width: 100%; font-size: 14px;">
+                ${lines}
+            </table>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+                Kwitansi ini dibuat otomatis oleh Beatly dan sah tanpa tanda tangan.
+            </p>
+        </div>
+    </div>
+</body>
+</html>`;
+}
+
+// Email the receipt of a successful transaction, once. Never throws: a
+// failed email must not fail the payment callback.
+export async function sendReceiptEmail(transactionId: string): Promise<boolean> {
+    if (!isMailerConfigured()) return false;
+
+    const { data: claimed } = await supabaseAdmin
+        .from('transactions')
+        .update({ receipt_sent_at: new Date().toISOString() })
+        .eq('id', transactionId)
+        .eq('status', 'SUCCESS')
+        .is('receipt_sent_at', null)
+        .select('id')
+        .maybeSingle();
+
+    if (!claimed) return false;
+
+    try {
+        const receipt = await getReceipt(transactionId);
+        if (!receipt?.customer.email) return false;
+
+        await sendMail({
+            to: receipt.customer.email,
+            subject: `Kwitansi pembayaran ${receipt.plan.name} - ${receipt.number}`,
+            html: renderReceiptHtml(receipt),
+        });
+        return true;
+    } catch (error) {
+        console.error(`Failed to email receipt for ${transactionId}:`, error);
+        await supabaseAdmin
+            .from('transactions')
+            .update({ receipt_sent_at: null })
+            .eq('id', transactionId);
+        return false;
+    }
+}
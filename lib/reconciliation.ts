@@ -0,0 +1,228 @@
+// lib/reconciliation.ts
+// Catch up on lost gateway callbacks. Recent non-final transactions, and
+// transactions settled in the last few days, are compared with the gateway
+// and any status drift is applied through applyPaymentEvent(), exactly like
+// a callback (drift the ledger does not allow, e.g. EXPIRED -> SUCCESS, is
+// reported as rejected). Amount mismatches and gateway
+// transactions without a row in our database are collected into a report
+// stored in reconciliation_runs for admins.
+import { supabaseAdmin } from './supabase';
+import { applyPaymentEvent, getPaymentGateway, PaymentEventOutcome, TransactionStatus } from './payments';
+import type { GatewayTransactionSummary } from './payment-gateway';
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+const DEFAULT_SETTLED_LOOKBACK_DAYS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ORPHAN_PAGES = 3;
+const ORPHAN_PAGE_SIZE = 50;
+
+export interface ReconcileOptions {
+    lookbackDays?: number;
+    settledLookbackDays?: number; // SUCCESS, EXPIRED and FAILED rows updated this recently are checked too
+    limit?: number;
+    orphanPages?: number; // gateway transaction pages (newest first) to scan for orphans
+    triggeredBy?: string | null;
+}
+
+export interface StatusDrift {
+    merchantRef: string;
+    reference: string;
+    from: TransactionStatus;
+    to: TransactionStatus;
+    outcome: PaymentEventOutcome;
+    message?: string;
+}
+
+export interface AmountMismatch {
+    merchantRef: string;
+    reference: string;
+    status: string;
+    amount: number; // what we charged
+    gatewayAmount: number;
+    amountReceived: number | null;
+    expectedReceived: number; // amount minus the merchant's share of the fee
+}
+
+export interface OrphanTransaction {
+    reference: string;
+    merchantRef: string;
+    status: string;
+    amount: number;
+    paidAt: string | null;
+}
+
+export interface ReconciliationReport {
+    id?: string;
+    startedAt: string;
+    finishedAt: string;
+    checked: number;
+    drifts: StatusDrift[];
+    mismatches: AmountMismatch[];
+    orphans: OrphanTransaction[];
+    errors: Array<{ merchantRef?: string; message: string }>;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Gateway transactions (newest first) whose merchant_ref has no transactions row
+async function findOrphans(pages: number, report: ReconciliationReport): Promise<OrphanTransaction[]> {
+    const gateway = getPaymentGateway();
+    const seen: GatewayTransactionSummary[] = [];
+
+    for (let page = 1; page <= pages; page++) {
+        try {
+            const result = await gateway.listTransactions(page, ORPHAN_PAGE_SIZE);
+            seen.push(...result.transactions);
+            if (result.page >= result.lastPage) break;
+        } catch (error) {
+            report.errors.push({ message: `List transactions page ${page}: ${errorMessage(error)}` });
+            break;
+        }
+    }
+
+    if (seen.length === 0) return [];
+
+    const { data: rows, error } = await supabaseAdmin
+        .from('transactions')
+        .select('id')
+        .in('id', seen.map(t => t.merchant_ref));
+
+    if (error) throw error;
+
+    const known = new Set((rows || []).map(row => row.id));
+    return seen
+        .filter(t => !known.has(t.merchant_ref))
+        .map(t => ({
+            reference: t.reference,
+            merchantRef: t.merchant_ref,
+            status: t.status,
+            amount: t.amount,
+            paidAt: t.paid_at ? new Date(t.paid_at * 1000).toISOString() : null,
+        }));
+}
+
+export async function reconcileTransactions(options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    const gateway = getPaymentGateway();
+    const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+    const since = new Date(Date.now() - lookbackDays * DAY_MS);
+    const settledSince = new Date(Date.now() - (options.settledLookbackDays ?? DEFAULT_SETTLED_LOOKBACK_DAYS) * DAY_MS);
+    const limit = options.limit ?? 500;
+
+    const report: ReconciliationReport = {
+        startedAt: new Date().toISOString(),
+        finishedAt: '',
+        checked: 0,
+        drifts: [],
+        mismatches: [],
+        orphans: [],
+        errors: [],
+    };
+
+    const { data: pending, error } = await supabaseAdmin
+        .from('transactions')
+        .select('id, payment_reference, status, amount')
+        .eq('status', 'PENDING')
+        .not('payment_reference', 'is', null)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+    if (error) throw error;
+
+    // Settled rows are where amount drift and late gateway changes show up
+    // (e.g. a checkout the sweeper expired that was paid after all)
+    const { data: settled, error: settledError } = await supabaseAdmin
+        .from('transactions')
+        .select('id, payment_reference, status, amount')
+        .in('status', ['SUCCESS', 'EXPIRED', 'FAILED'])
+        .not('payment_reference', 'is', null)
+        .gte('updated_at', settledSince.toISOString())
+        .order('updated_at', { ascending: false })
+        .limit(Math.max(0, limit - (pending || []).length));
+
+    if (settledError) throw settledError;
+
+    for (const transaction of [...(pending || []), ...(settled || [])]) {
+        report.checked++;
+
+        try {
+            const detail = await gateway.getTransactionDetail(transaction.payment_reference);
+            const status = gateway.mapStatus(detail.status);
+            const expectedReceived = transaction.amount - (detail.fee_merchant || 0);
+
+            if (detail.amount !== transaction.amount ||
+                (status === 'SUCCESS' && detail.amount_received !== expectedReceived)) {
+                report.mismatches.push({
+                    merchantRef: transaction.id,
+                    reference: transaction.payment_reference,
+                    status: detail.status,
+                    amount: transaction.amount,
+                    gatewayAmount: detail.amount,
+                    amountReceived: detail.amount_received ?? null,
+                    expectedReceived,
+                });
+            }
+
+            if (status === transaction.status) continue;
+
+            const result = await applyPaymentEvent({
+                reference: detail.reference,
+                merchantRef: transaction.id,
+                status,
+                amountReceived: detail.amount_received ?? null,
+                paidAt: detail.paid_at ?? null,
+                payload: detail,
+                source: 'reconcile',
+            });
+
+            report.drifts.push({
+                merchantRef: transaction.id,
+                reference: detail.reference,
+                from: transaction.status,
+                to: status,
+                outcome: result.outcome,
+                message: result.message,
+            });
+        } catch (detailError) {
+            console.error(`Reconciliation failed for ${transaction.id}:`, detailError);
+            report.errors.push({ merchantRef: transaction.id, message: errorMessage(detailError) });
+        }
+    }
+
+    const orphanPages = options.orphanPages ?? DEFAULT_ORPHAN_PAGES;
+    if (orphanPages > 0) {
+        try {
+            report.orphans = await findOrphans(orphanPages, report);
+        } catch (orphanError) {
+            report.errors.push({ message: `Orphan scan: ${errorMessage(orphanError)}` });
+        }
+    }
+
+    report.finishedAt = new Date().toISOString();
+
+    const { data: run, error: saveError } = await supabaseAdmin
+        .from('reconciliation_runs')
+        .insert({
+            started_at: report.startedAt,
+            finished_at: report.finishedAt,
+            gateway: gateway.name,
+            checked: report.checked,
+            drifts: report.drifts,
+            mismatches: report.mismatches,
+            orphans: report.orphans,
+            errors: report.errors,
+            triggered_by: options.triggeredBy || null,
+        })
+        .select('id')
+        .single();
+
+    if (saveError) {
+        console.error('Failed to save reconciliation report:', saveError);
+    } else {
+        report.id = run.id;
+    }
+
+    return report;
+}
@@ -0,0 +1,510 @@
+// lib/referrals.ts
+// Referral program. Every user has a code to share; a new user enters one
+// shortly after signing up and is attributed to that referrer. When the
+// referred user's first paid transaction succeeds, the referrer gets the
+// reward set in referral_settings: bonus plays, premium days or a voucher.
+// Each email identity (see email-identity.ts) earns a reward only once, so
+// aliases of the same mailbox cannot farm rewards, and a reward is
+// taken back when the payment that earned it is refunded.
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { getPlan } from './plans';
+import { grantBonusDays, revokePeriod } from './subscriptions';
+import { grantPlayCredits } from './play-credits';
+import { getEmailIdentity } from './email-identity';
+import { recordBillingEvent } from './billing-history';
+
+export type ReferralRewardType = 'plays' | 'premium_days' | 'voucher';
+export type ReferralStatus = 'pending' | 'rewarded' | 'rejected' | 'revoked';
+
+export const REWARD_TYPES: ReferralRewardType[] = ['plays', 'premium_days', 'voucher'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export class ReferralError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'ReferralError';
+        this.status = status;
+    }
+}
+
+export interface ReferralSettings {
+    is_active: boolean;
+    reward_type: ReferralRewardType;
+    reward_value: number;
+    reward_plan_id: string | null;
+    reward_valid_days: number;
+    attribution_window_days: number;
+}
+
+export interface Referral {
+    id: string;
+    referrer_id: string;
+    referred_id: string;
+    code: string;
+    status: ReferralStatus;
+    referred_identity: string | null;
+    transaction_id: string | null;
+    reward_type: ReferralRewardType | null;
+    reward_value: number | null;
+    reward_ref: string | null;
+    reject_reason: string | null;
+    created_at: string;
+    converted_at: string | null;
+}
+
+export interface ReferredUser {
+    id: string;
+    email?: string | null;
+    created_at: string;
+}
+
+// Used until an admin saves settings
+const DEFAULT_SETTINGS: ReferralSettings = {
+    is_active: true,
+    reward_type: 'plays',
+    reward_value: 50,
+    reward_plan_id: null,
+    reward_valid_days: 30,
+    attribution_window_days: 7,
+};
+
+export function normalizeReferralCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+function generateReferralCode(): string {
+    const bytes = crypto.randomBytes(8);
+    return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+export async function getReferralSettings(): Promise<ReferralSettings> {
+    const { data, error } = await supabaseAdmin
+        .from('referral_settings')
+        .select('is_active, reward_type, reward_value, reward_plan_id, reward_valid_days, attribution_window_days')
+        .eq('id', 'main')
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching referral settings:', error);
+    }
+
+    return { ...DEFAULT_SETTINGS, ...(data || {}) } as ReferralSettings;
+}
+
+export async function getOrCreateReferralCode(userId: string): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const { data: existing, error: fetchError } = await supabaseAdmin
+            .from('referral_codes')
+            .select('code')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (fetchError) throw fetchError;
+        if (existing) return existing.code;
+
+        const { data, error } = await supabaseAdmin
+            .from('referral_codes')
+            .insert({ user_id: userId, code: generateReferralCode() })
+            .select('code')
+            .single();
+
+        if (!error) return data.code;
+        // Unique violation: the code is taken or a parallel request created
+        // the user's code first; look again
+        if (error.code !== '23505') throw error;
+    }
+
+    throw new Error(`Could not create a referral code for user ${userId}`);
+}
+
+async function getUserEmail(userId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+    if (error) {
+        console.error(`Error fetching user ${userId}:`, error);
+        return null;
+    }
+    return data.user?.email || null;
+}
+
+// Attribute a newly signed-up user to the owner of a referral code
+export async function attributeReferral(user: ReferredUser, code: string, now = new Date()): Promise<Referral> {
+    const settings = await getReferralSettings();
+    if (!settings.is_active) {
+        throw new ReferralError('Program referral sedang tidak aktif');
+    }
+
+    if (now.getTime() - new Date(user.created_at).getTime() > settings.attribution_window_days * DAY_MS) {
+        throw new ReferralError(`Kode referral hanya bisa dipakai dalam ${settings.attribution_window_days} hari setelah mendaftar`);
+    }
+
+    const { data: owner, error: ownerError } = await supabaseAdmin
+        .from('referral_codes')
+        .select('user_id, code')
+        .eq('code', normalizeReferralCode(code))
+        .maybeSingle();
+
+    if (ownerError) throw ownerError;
+    if (!owner) {
+        throw new ReferralError('Kode referral tidak ditemukan', 404);
+    }
+
+    if (owner.user_id === user.id) {
+        throw new ReferralError('Anda tidak bisa memakai kode referral sendiri');
+    }
+
+    const identity = user.email ? getEmailIdentity(user.email) : null;
+    const referrerEmail = await getUserEmail(owner.user_id);
+    if (identity && referrerEmail && getEmailIdentity(referrerEmail) === identity) {
+        throw new ReferralError('Anda tidak bisa memakai kode referral sendiri');
+    }
+
+    // Referrals count new customers only
+    const { count, error: countError } = await supabaseAdmin
+        .from('transactions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .in('status', ['SUCCESS', 'REFUNDED']);
+
+    if (countError) throw countError;
+    if (count) {
+        throw new ReferralError('Kode referral hanya berlaku sebelum pembayaran pertama');
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('referrals')
+        .insert({
+            referrer_id: owner.user_id,
+            referred_id: user.id,
+            code: owner.code,
+            referred_identity: identity,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        if (error.code === '23505') {
+            throw new ReferralError('Anda sudah memakai kode referral', 409);
+        }
+        throw error;
+    }
+
+    return data as Referral;
+}
+
+async function rejectReferral(referralId: string, reason: string) {
+    const { error } = await supabaseAdmin
+        .from('referrals')
+        .update({ status: 'rejected', reject_reason: reason, converted_at: new Date().toISOString() })
+        .eq('id', referralId)
+        .eq('status', 'pending');
+
+    if (error) {
+        console.error(`Error rejecting referral ${referralId}:`, error);
+    }
+}
+
+// Create a single-use voucher for the referrer
+async function createRewardVoucher(settings: ReferralSettings, now: Date): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const code = `REF-${generateReferralCode()}`;
+        const { error } = await supabaseAdmin
+            .from('vouchers')
+            .insert({
+                code,
+                description: 'Hadiah referral',
+                discount_type: 'percentage',
+                discount_value: Math.min(settings.reward_value, 99),
+                max_redemptions: 1,
+                per_user_limit: 1,
+                starts_at: now.toISOString(),
+                ends_at: new Date(now.getTime() + settings.reward_valid_days * DAY_MS).toISOString(),
+                created_by: 'referral',
+            });
+
+        if (!error) return code;
+        if (error.code !== '23505') throw error;
+    }
+
+    throw new Error('Could not create a referral voucher');
+}
+
+// Give the referrer the configured reward; returns what to store as reward_ref
+async function grantReward(referral: Referral, settings: ReferralSettings, now: Date): Promise<{ ref: string | null; description: string }> {
+    switch (settings.reward_type) {
+        case 'plays': {
+            const grant = await grantPlayCredits({
+                userId: referral.referrer_id,
+                amount: settings.reward_value,
+                source: 'referral',
+                reason: `Referral ${referral.id}`,
+                expiresAt: new Date(now.getTime() + settings.reward_valid_days * DAY_MS),
+            }, now);
+            return { ref: grant.id, description: `${settings.reward_value} putaran bonus` };
+        }
+
+        case 'premium_days': {
+            const plan = settings.reward_plan_id ? await getPlan(settings.reward_plan_id) : null;
+            if (!plan) {
+                throw new Error('Referral reward plan is not configured');
+            }
+            await grantBonusDays(referral.referrer_id, plan, settings.reward_value);
+            return { ref: plan.id, description: `${settings.reward_value} hari ${plan.name}` };
+        }
+
+        case 'voucher': {
+            const code = await createRewardVoucher(settings, now);
+            return { ref: code, description: `voucher diskon ${Math.min(settings.reward_value, 99)}% (${code})` };
+        }
+    }
+}
+
+// Called for every successful paid transaction. Only the first one of a
+// referred user counts: the referral is claimed (pending -> rewarded) before
+// the reward is granted, and put back to pending if granting fails.
+export async function rewardReferral(transaction: { id: string; user_id: string }, now = new Date()): Promise<void> {
+    const { data: referral, error } = await supabaseAdmin
+        .from('referrals')
+        .select('*')
+        .eq('referred_id', transaction.user_id)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!referral) return;
+
+    const settings = await getReferralSettings();
+    if (!settings.is_active) {
+        await rejectReferral(referral.id, 'Program referral tidak aktif saat pembayaran');
+        return;
+    }
+
+    // The email of the account that paid, which may have changed since signup
+    const email = await getUserEmail(transaction.user_id);
+    const identity = email ? getEmailIdentity(email) : referral.referred_identity;
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('referrals')
+        .update({
+            status: 'rewarded',
+            referred_identity: identity,
+            transaction_id: transaction.id,
+            reward_type: settings.reward_type,
+            reward_value: settings.reward_value,
+            converted_at: now.toISOString(),
+        })
+        .eq('id', referral.id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+    if (claimError) {
+        if (claimError.code === '23505') { // Identity already earned a reward
+            await rejectReferral(referral.id, 'Alamat email ini sudah pernah menghasilkan hadiah referral');
+            return;
+        }
+        throw claimError;
+    }
+
+    // Rewarded by a concurrent delivery
+    if (!claimed) return;
+
+    let reward: { ref: string | null; description: string };
+    try {
+        reward = await grantReward(claimed as Referral, settings, now);
+    } catch (grantError) {
+        await supabaseAdmin
+            .from('referrals')
+            .update({ status: 'pending', transaction_id: null, reward_type: null, reward_value: null, converted_at: null })
+            .eq('id', referral.id);
+        throw grantError;
+    }
+
+    await supabaseAdmin
+        .from('referrals')
+        .update({ reward_ref: reward.ref })
+        .eq('id', referral.id);
+
+    await recordBillingEvent({
+        userId: referral.referrer_id,
+        type: 'referral',
+        title: 'Hadiah referral',
+        description: `Teman yang Anda ajak melakukan pembayaran pertama. Anda mendapat ${reward.description}.`,
+        metadata: { referral_id: referral.id, reward_type: settings.reward_type, reward_ref: reward.ref },
+    });
+}
+
+// Referred users whose payment was granted recently but whose referral is
+// still pending, because rewarding failed when the payment came in. Run by
+// the subscription sweeper.
+export async function retryReferralRewards(now = new Date(), lookbackDays = 7): Promise<{ retried: number; failed: number }> {
+    const result = { retried: 0, failed: 0 };
+
+    const { data: paid, error } = await supabaseAdmin
+        .from('transactions')
+        .select('id, user_id')
+        .eq('status', 'SUCCESS')
+        .gte('granted_at', new Date(now.getTime() - lookbackDays * DAY_MS).toISOString())
+        .order('granted_at', { ascending: true });
+
+    if (error) throw error;
+    if (!paid || paid.length === 0) return result;
+
+    const { data: pending, error: pendingError } = await supabaseAdmin
+        .from('referrals')
+        .select('referred_id')
+        .eq('status', 'pending')
+        .in('referred_id', [...new Set(paid.map(transaction => transaction.user_id))]);
+
+    if (pendingError) throw pendingError;
+
+    for (const { referred_id: userId } of pending || []) {
+        // The earliest payment in the window is the one that should have counted
+        const transaction = paid.find(candidate => candidate.user_id === userId)!;
+        try {
+            await rewardReferral(transaction, now);
+            result.retried++;
+        } catch (rewardError) {
+            console.error(`Error retrying referral reward for transaction ${transaction.id}:`, rewardError);
+            result.failed++;
+        }
+    }
+
+    return result;
+}
+
+// Take back what a referral earned; the referrer keeps whatever of it was
+// already used. Returns a description for the referrer's billing history.
+async function revokeReward(referral: Referral): Promise<string> {
+    if (!referral.reward_ref) return 'Tidak ada hadiah yang dibatalkan.';
+
+    switch (referral.reward_type) {
+        case 'plays': {
+            const { error } = await supabaseAdmin
+                .from('play_credit_grants')
+                .update({ remaining: 0 })
+                .eq('id', referral.reward_ref);
+            if (error) throw error;
+            return 'Putaran bonus yang belum terpakai dibatalkan.';
+        }
+
+        case 'premium_days': {
+            const result = await revokePeriod(referral.referrer_id, referral.reward_ref, (referral.reward_value || 0) * DAY_MS);
+            return result.action === 'unchanged'
+                ? 'Hari premium dari referral sudah habis terpakai.'
+                : 'Hari premium dari referral dibatalkan.';
+        }
+
+        case 'voucher': {
+            const { error } = await supabaseAdmin
+                .from('vouchers')
+                .update({ is_active: false })
+                .eq('code', referral.reward_ref);
+            if (error) throw error;
+            return `Voucher ${referral.reward_ref} dinonaktifkan.`;
+        }
+
+        default:
+            return 'Tidak ada hadiah yang dibatalkan.';
+    }
+}
+
+// Called when a transaction is fully refunded. If it earned a referral reward,
+// the reward is revoked (rewarded -> revoked). A revoked identity stays
+// counted, so paying, collecting the reward and refunding cannot be repeated.
+export async function revokeReferralReward(transactionId: string): Promise<boolean> {
+    const { data: referral, error } = await supabaseAdmin
+        .from('referrals')
+        .update({ status: 'revoked', reject_reason: 'Pembayaran pertama dikembalikan' })
+        .eq('transaction_id', transactionId)
+        .eq('status', 'rewarded')
+        .select()
+        .maybeSingle();
+
+    if (error) throw error;
+    // No reward for this transaction, or a concurrent refund revoked it
+    if (!referral) return false;
+
+    const description = await revokeReward(referral as Referral);
+
+    await recordBillingEvent({
+        userId: referral.referrer_id,
+        type: 'referral',
+        title: 'Hadiah referral dibatalkan',
+        description: `Pembayaran pertama teman yang Anda ajak dikembalikan. ${description}`,
+        metadata: { referral_id: referral.id, reward_type: referral.reward_type, reward_ref: referral.reward_ref },
+    });
+
+    return true;
+}
+
+// The user's code and how their referrals are doing
+export async function getReferralSummary(userId: string) {
+    const code = await getOrCreateReferralCode(userId);
+
+    const { data, error } = await supabaseAdmin
+        .from('referrals')
+        .select('id, status, reward_type, reward_value, created_at, converted_at')
+        .eq('referrer_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const referrals = data || [];
+    return {
+        code,
+        total: referrals.length,
+        pending: referrals.filter(r => r.status === 'pending').length,
+        rewarded: referrals.filter(r => r.status === 'rewarded').length,
+        referrals,
+    };
+}
+
+// Admin report of attributions and conversions, optionally within a period
+export async function getReferralReport(options: { from?: string | null; to?: string | null } = {}) {
+    let query = supabaseAdmin
+        .from('referrals')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+    if (options.from) query = query.gte('created_at', options.from);
+    if (options.to) query = query.lte('created_at', options.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const referrals = (data || []) as Referral[];
+    const rewarded = referrals.filter(r => r.status === 'rewarded');
+
+    const byReferrer = new Map<string, { referrer_id: string; referred: number; converted: number }>();
+    for (const referral of referrals) {
+        const entry = byReferrer.get(referral.referrer_id) || { referrer_id: referral.referrer_id, referred: 0, converted: 0 };
+        entry.referred++;
+        if (referral.status === 'rewarded') entry.converted++;
+        byReferrer.set(referral.referrer_id, entry);
+    }
+
+    return {
+        totals: {
+            referred: referrals.length,
+            pending: referrals.filter(r => r.status === 'pending').length,
+            converted: rewarded.length,
+            rejected: referrals.filter(r => r.status === 'rejected').length,
+            revoked: referrals.filter(r => r.status === 'revoked').length,
+            conversion_rate: referrals.length > 0 ? Math.round(rewarded.length / referrals.length * 1000) / 10 : 0,
+        },
+        rewards: REWARD_TYPES.map(type => ({
+            type,
+            count: rewarded.filter(r => r.reward_type === type).length,
+            total_value: rewarded.filter(r => r.reward_type === type).reduce((sum, r) => sum + (r.reward_value || 0), 0),
+        })),
+        top_referrers: Array.from(byReferrer.values())
+            .sort((a, b) => b.converted - a.converted || b.referred - a.referred)
+            .slice(0, 20),
+        referrals,
+    };
+}
@@ -0,0 +1,266 @@
+// lib/refunds.ts
+import { supabaseAdmin } from './supabase';
+import { FREE_PLAN_ID, getSubscription, revokePeriod } from './subscriptions';
+import { formatRupiah, recordBillingEvent } from './billing-history';
+import { revokeGift } from './gifts';
+import { revokeReferralReward } from './referrals';
+
+export interface RefundInput {
+    transactionId: string;
+    amount?: number; // defaults to the remaining refundable amount
+    reason?: string;
+    source: 'admin' | 'gateway' | 'system';
+    createdBy?: string | null;
+}
+
+export interface RefundResult {
+    refundId: string;
+    amount: number;
+    fullyRefunded: boolean;
+    subscription: {
+        action: 'downgraded' | 'shortened' | 'unchanged';
+        planId: string;
+        expiresAt: string | null;
+    };
+    gift?: Awaited<ReturnType<typeof revokeGift>>;
+}
+
+export class RefundError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'RefundError';
+        this.status = status;
+    }
+}
+
+// Turn the exceptions raised by record_refund into RefundErrors
+function refundErrorFrom(error: { message?: string }, transaction: { status: string; amount: number }): Error {
+    switch (error.message) {
+        case 'REFUND_NOT_FOUND':
+            return new RefundError('Transaction not found', 404);
+        case 'REFUND_INVALID_STATUS':
+            return new RefundError(`Cannot refund a ${transaction.status} transaction`);
+        case 'REFUND_FULLY_REFUNDED':
+            return new RefundError('Transaction is already fully refunded', 409);
+        case 'REFUND_INVALID_AMOUNT':
+            return new RefundError('Refund amount exceeds the refundable amount');
+        default:
+            return error as Error;
+    }
+}
+
+async function currentSubscriptionState(userId: string): Promise<RefundResult['subscription']> {
+    const current = await getSubscription(userId);
+    return { action: 'unchanged', planId: current?.plan_id || FREE_PLAN_ID, expiresAt: current?.expires_at || null };
+}
+
+// Take back the share of the paid period that was refunded. The time is
+// removed from wherever the transaction's plan sits in the subscription
+// (renewals stack, so later terms shift back too); if nothing paid is left
+// the user moves on to the next paid period or drops to free.
+async function revokeEntitlement(transaction: {
+    user_id: string;
+    plan_id: string;
+    amount: number;
+    period_start: string | null;
+    period_end: string | null;
+}, refundAmount: number): Promise<RefundResult['subscription']> {
+    if (!transaction.period_start || !transaction.period_end) {
+        return currentSubscriptionState(transaction.user_id);
+    }
+
+    const periodMs = new Date(transaction.period_end).getTime() - new Date(transaction.period_start).getTime();
+    const share = Math.min(1, refundAmount / transaction.amount);
+
+    return revokePeriod(transaction.user_id, transaction.plan_id, Math.round(periodMs * share));
+}
+
+interface RefundedTransaction {
+    id: string;
+    user_id: string;
+    plan_id: string;
+    amount: number;
+    gift_recipient_email: string | null;
+    period_start: string | null;
+    period_end: string | null;
+}
+
+interface RecordedRefund {
+    id: string;
+    amount: number;
+    reason: string | null;
+    source: RefundInput['source'];
+}
+
+async function getRefundedTotal(transactionId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+        .from('refunds')
+        .select('amount')
+        .eq('transaction_id', transactionId);
+
+    if (error) throw error;
+    return (data || []).reduce((sum, refund) => sum + refund.amount, 0);
+}
+
+// Apply the consequences of a refund the caller has claimed (processed_at
+// set), so two callers cannot revoke the same time twice. If revoking fails
+// the claim is released, and the next applyRefund for the transaction
+// finishes it (see finishPendingRefunds).
+async function processRefund(transaction: RefundedTransaction, refund: RecordedRefund): Promise<RefundResult> {
+    const { id: refundId, amount } = refund;
+    let fullyRefunded: boolean;
+    let gift: Awaited<ReturnType<typeof revokeGift>> | undefined;
+    let subscription: RefundResult['subscription'];
+
+    try {
+        fullyRefunded = await getRefundedTotal(transaction.id) >= transaction.amount;
+
+        if (fullyRefunded) {
+            const { error: statusError } = await supabaseAdmin
+                .from('transactions')
+                .update({ status: 'REFUNDED', updated_at: new Date().toISOString() })
+                .eq('id', transaction.id)
+                .eq('status', 'SUCCESS');
+            if (statusError) throw statusError;
+        }
+
+        // A gift never changed the buyer's own plan; the gift itself is taken back
+        gift = transaction.gift_recipient_email
+            ? await revokeGift(transaction.id, Math.min(1, amount / transaction.amount))
+            : undefined;
+        subscription = gift
+            ? await currentSubscriptionState(transaction.user_id)
+            : await revokeEntitlement(transaction, amount);
+    } catch (error) {
+        await supabaseAdmin
+            .from('refunds')
+            .update({ processed_at: null })
+            .eq('id', refundId);
+        throw error;
+    }
+
+    await supabaseAdmin
+        .from('refunds')
+        .update({ subscription_action: gift ? `gift_${gift.action}` : subscription.action })
+        .eq('id', refundId);
+
+    // A referral reward earned by this payment goes too. This must not stop
+    // the refund itself from being applied.
+    if (fullyRefunded) {
+        try {
+            await revokeReferralReward(transaction.id);
+        } catch (referralError) {
+            console.error(`Error revoking referral reward for transaction ${transaction.id}:`, referralError);
+        }
+    }
+
+    const consequence = gift
+        ? gift.action === 'revoked'
+            ? 'Kode hadiah dibatalkan.'
+            : gift.action === 'shortened'
+                ? 'Masa aktif hadiah yang sudah ditukarkan dikurangi.'
+                : 'Hadiah tidak berubah.'
+        : subscription.action === 'downgraded'
+        ? subscription.planId === FREE_PLAN_ID
+            ? 'Paket Anda dikembalikan ke Free.'
+            : 'Paket Anda beralih ke paket berikutnya yang sudah dibayar.'
+        : subscription.action === 'shortened'
+            ? `Masa aktif paket disesuaikan hingga ${new Date(subscription.expiresAt!).toLocaleDateString('id-ID')}.`
+            : 'Paket Anda saat ini tidak berubah.';
+
+    await recordBillingEvent({
+        userId: transaction.user_id,
+        type: 'refund',
+        title: fullyRefunded ? 'Pengembalian dana penuh' : 'Pengembalian dana sebagian',
+        description: `Dana ${formatRupiah(amount)} untuk transaksi ${transaction.id} dikembalikan` +
+            `${refund.reason ? ` (${refund.reason})` : ''}. ${consequence}`,
+        transactionId: transaction.id,
+        amount: -amount,
+        metadata: {
+            refund_id: refundId,
+            source: refund.source,
+            subscription_action: subscription.action,
+            expires_at: subscription.expiresAt,
+            ...(gift && { gift_action: gift.action, gift_id: gift.giftId }),
+        },
+    });
+
+    return { refundId, amount, fullyRefunded, subscription, ...(gift && { gift }) };
+}
+
+// Refunds that were recorded but whose revocation failed, e.g. a gateway
+// refund whose first delivery errored after record_refund
+async function finishPendingRefunds(transaction: RefundedTransaction): Promise<void> {
+    const { data, error } = await supabaseAdmin
+        .from('refunds')
+        .select('id, amount, reason, source')
+        .eq('transaction_id', transaction.id)
+        .is('processed_at', null)
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    for (const refund of (data || []) as RecordedRefund[]) {
+        const { data: claimed, error: claimError } = await supabaseAdmin
+            .from('refunds')
+            .update({ processed_at: new Date().toISOString() })
+            .eq('id', refund.id)
+            .is('processed_at', null)
+            .select('id')
+            .maybeSingle();
+
+        if (claimError) throw claimError;
+        // Finished by a concurrent call
+        if (!claimed) continue;
+
+        await processRefund(transaction, refund);
+    }
+}
+
+// Record a refund for a paid transaction and adjust the entitlement it bought.
+// Refunds themselves are issued at the gateway (Tripay has no refund API for
+// closed payments); this records them and applies the consequences. Earlier
+// refunds that were recorded but not applied are finished first, so a
+// redelivered gateway refund completes the job even though nothing is left
+// to refund (it then fails with 409).
+export async function applyRefund(input: RefundInput): Promise<RefundResult> {
+    const { data: transaction, error: fetchError } = await supabaseAdmin
+        .from('transactions')
+        .select('*')
+        .eq('id', input.transactionId)
+        .single();
+
+    if (fetchError || !transaction) {
+        throw new RefundError('Transaction not found', 404);
+    }
+
+    if (transaction.status !== 'SUCCESS' && transaction.status !== 'REFUNDED') {
+        throw new RefundError(`Cannot refund a ${transaction.status} transaction`);
+    }
+
+    if (input.amount !== undefined && (!Number.isInteger(input.amount) || input.amount <= 0)) {
+        throw new RefundError('Refund amount must be a positive integer');
+    }
+
+    await finishPendingRefunds(transaction);
+
+    // The refundable amount is checked and the refund inserted, already
+    // claimed, under a lock on the transaction (see record_refund)
+    const { data: rows, error: insertError } = await supabaseAdmin.rpc('record_refund', {
+        p_transaction_id: transaction.id,
+        p_amount: input.amount ?? null,
+        p_reason: input.reason || null,
+        p_source: input.source,
+        p_created_by: input.createdBy || null,
+    });
+
+    if (insertError) {
+        throw refundErrorFrom(insertError, transaction);
+    }
+
+    const { refund_id: refundId, amount } = (rows as Array<{ refund_id: string; amount: number }>)[0];
+
+    return processRefund(transaction, { id: refundId, amount, reason: input.reason || null, source: input.source });
+}
@@ -0,0 +1,283 @@
+// lib/subscription-sweeper.ts
+// Scheduled maintenance run by /api/cron/subscriptions: downgrade lapsed
+// subscriptions, release family seats of lapsed owners, expire abandoned
+// checkouts, remind users before their plan runs out and retry referral
+// rewards that failed when the payment came in. Every step is safe
+// to run again after a partial failure.
+import { supabaseAdmin } from './supabase';
+import { applyLapse, FREE_PLAN_ID, SubscriptionRow } from './subscriptions';
+import { applyPaymentEvent, getPaymentGateway } from './payments';
+import { setRedemptionStatus } from './vouchers';
+import { getPlan } from './plans';
+import { isMailerConfigured, renderEmail, sendMail } from './mailer';
+import { releaseLapsedSeats } from './family';
+import { retryReferralRewards } from './referrals';
+
+const BATCH_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SweepResult {
+    subscriptions: { lapsed: number; failed: number };
+    seats: { released: number };
+    // paid: the gateway had the payment after all, so it was granted instead
+    transactions: { expired: number; paid: number; failed: number };
+    reminders: { sent: number; skipped: number; failed: number };
+    referrals: { retried: number; failed: number };
+}
+
+// Days before expiry at which a renewal reminder goes out, e.g. "7,3,1".
+// Trials are short, so they have their own schedule.
+export function getReminderOffsets(trial = false): number[] {
+    const offsets = (trial ? process.env.TRIAL_REMINDER_DAYS || '3,1' : process.env.RENEWAL_REMINDER_DAYS || '7,3,1')
+        .split(',')
+        .map(value => Number(value.trim()))
+        .filter(value => Number.isInteger(value) && value > 0);
+
+    return [...new Set(offsets)].sort((a, b) => a - b);
+}
+
+// Move every lapsed paid subscription on to its follow-up plan or free
+export async function sweepExpiredSubscriptions(now = new Date()): Promise<SweepResult['subscriptions']> {
+    const result = { lapsed: 0, failed: 0 };
+    const failedIds = new Set<string>();
+
+    while (true) {
+        let query = supabaseAdmin
+            .from('user_subscriptions')
+            .select('user_id, plan_id, expires_at, scheduled_plan_id, scheduled_expires_at')
+            .neq('plan_id', FREE_PLAN_ID)
+            .lt('expires_at', now.toISOString())
+            .limit(BATCH_SIZE);
+
+        // Rows that failed stay expired; skip them so the loop ends
+        if (failedIds.size > 0) {
+            query = query.not('user_id', 'in', `(${[...failedIds].join(',')})`);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        for (const subscription of data) {
+            try {
+                await applyLapse(subscription, now);
+                result.lapsed++;
+            } catch (lapseError) {
+                console.error(`Failed to downgrade subscription for user ${subscription.user_id}:`, lapseError);
+                failedIds.add(subscription.user_id);
+                result.failed++;
+            }
+        }
+
+        if (data.length < BATCH_SIZE) break;
+    }
+
+    return result;
+}
+
+// Mark PENDING checkouts whose payment window has passed as EXPIRED. Rows
+// with a gateway reference take the status the gateway reports instead (a
+// payment made just before expiry may not have been notified yet) and go
+// through the payment event ledger like a gateway notification would; rows
+// the gateway still has as unpaid are left for a later run.
+export async function expireStaleTransactions(now = new Date()): Promise<SweepResult['transactions']> {
+    const result = { expired: 0, paid: 0, failed: 0 };
+
+    const { data, error } = await supabaseAdmin
+        .from('transactions')
+        .select('id, payment_reference, voucher_id')
+        .eq('status', 'PENDING')
+        .lt('expired_at', now.toISOString())
+        .order('expired_at', { ascending: true })
+        .limit(BATCH_SIZE * 5);
+
+    if (error) throw error;
+
+    for (const transaction of data || []) {
+        try {
+            if (transaction.payment_reference) {
+                const gateway = getPaymentGateway();
+                const detail = await gateway.getTransactionDetail(transaction.payment_reference);
+                const status = gateway.mapStatus(detail.status);
+                if (status === 'PENDING') continue;
+
+                const event = await applyPaymentEvent({
+                    reference: detail.reference,
+                    merchantRef: transaction.id,
+                    status,
+                    amountReceived: detail.amount_received ?? null,
+                    paidAt: detail.paid_at ?? null,
+                    payload: detail,
+                    source: 'sweeper',
+                });
+                if (event.outcome === 'applied') {
+                    if (status === 'SUCCESS') result.paid++;
+                    else result.expired++;
+                }
+                continue;
+            }
+
+            const { data: updated, error: updateError } = await supabaseAdmin
+                .from('transactions')
+                .update({ status: 'EXPIRED', updated_at: new Date().toISOString() })
+                .eq('id', transaction.id)
+                .eq('status', 'PENDING')
+                .select('id');
+
+            if (updateError) throw updateError;
+            if (updated && updated.length > 0) {
+                if (transaction.voucher_id) {
+                    await setRedemptionStatus(transaction.id, 'released');
+                }
+                result.expired++;
+            }
+        } catch (expireError) {
+            console.error(`Failed to expire transaction ${transaction.id}:`, expireError);
+            result.failed++;
+        }
+    }
+
+    return result;
+}
+
+function renderTrialReminderEmail(planName: string, expiresAt: Date, daysLeft: number): string {
+    const pricingUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/pricing`;
+    const date = expiresAt.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+    return renderEmail('⏰ Free Trial Beatly Anda Segera Berakhir', `
+        <p style="color: #374151; font-size: 16px; margin: 0 0 15px 0;">
+            Free trial <strong>${planName}</strong> Anda berakhir dalam ${daysLeft} hari, pada <strong>${date}</strong>.
+        </p>
+        <p style="color: #374151; font-size: 16px; margin: 0 0 20px 0;">
+            Setelah itu akun Anda kembali ke paket Free. Berlangganan sekarang agar tetap bisa menikmati semua fitur premium.
+        </p>
+        <a href="${pricingUrl}" style="display: inline-block; background: #6366f1; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+            Berlangganan
+        </a>
+    `);
+}
+
+function renderReminderEmail(planName: string, expiresAt: Date, daysLeft: number, cancelled: boolean): string {
+    const renewUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/pricing`;
+    const date = expiresAt.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+    return renderEmail('⏰ Paket Beatly Anda Segera Berakhir', `
+        <p style="color: #374151; font-size: 16px; margin: 0 0 15px 0;">
+            Paket <strong>${planName}</strong> Anda akan berakhir dalam ${daysLeft} hari, pada <strong>${date}</strong>.
+        </p>
+        <p style="color: #374151; font-size: 16px; margin: 0 0 20px 0;">
+            ${cancelled
+                ? 'Anda sudah membatalkan langganan. Setelah tanggal tersebut akun Anda kembali ke paket Free.'
+                : 'Perpanjang sekarang agar tetap bisa menikmati semua fitur premium tanpa jeda.'}
+        </p>
+        <a href="${renewUrl}" style="display: inline-block; background: #6366f1; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+            Perpanjang Paket
+        </a>
+    `);
+}
+
+// Send one reminder per subscription period at each configured offset. If a
+// run is missed only the closest offset is sent, never several at once.
+export async function sendRenewalReminders(now = new Date()): Promise<SweepResult['reminders']> {
+    const result = { sent: 0, skipped: 0, failed: 0 };
+    const offsets = getReminderOffsets();
+    const trialOffsets = getReminderOffsets(true);
+    const longest = Math.max(0, ...offsets, ...trialOffsets);
+
+    if (longest === 0) {
+        return result;
+    }
+    if (!isMailerConfigured()) {
+        console.warn('SMTP is not configured, skipping renewal reminders');
+        return result;
+    }
+
+    const horizon = new Date(now.getTime() + longest * DAY_MS);
+
+    // A paid follow-up period means premium does not end at expires_at
+    const { data, error } = await supabaseAdmin
+        .from('user_subscriptions')
+        .select('user_id, plan_id, expires_at, cancel_at_period_end, is_trial')
+        .neq('plan_id', FREE_PLAN_ID)
+        .is('scheduled_expires_at', null)
+        .gt('expires_at', now.toISOString())
+        .lte('expires_at', horizon.toISOString());
+
+    if (error) throw error;
+
+    const planNames = new Map<string, string>();
+
+    for (const subscription of (data || []) as Pick<SubscriptionRow, 'user_id' | 'plan_id' | 'expires_at' | 'cancel_at_period_end' | 'is_trial'>[]) {
+        const expiresAt = new Date(subscription.expires_at!);
+        const daysLeft = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+        const offset = (subscription.is_trial ? trialOffsets : offsets).find(days => daysLeft <= days);
+        if (offset === undefined) continue; // Not due yet on this schedule
+
+        // Claim the reminder first so concurrent runs cannot both send it
+        const { error: claimError } = await supabaseAdmin
+            .from('renewal_reminders')
+            .insert({
+                user_id: subscription.user_id,
+                expires_at: subscription.expires_at,
+                days_before: offset,
+            });
+
+        if (claimError) {
+            if (claimError.code === '23505') { // Already sent for this period and offset
+                result.skipped++;
+                continue;
+            }
+            console.error('Failed to record renewal reminder:', claimError);
+            result.failed++;
+            continue;
+        }
+
+        try {
+            const { data: { user } } = await supabaseAdmin.auth.admin.getUserById(subscription.user_id);
+            if (!user?.email) {
+                result.skipped++;
+                continue;
+            }
+
+            if (!planNames.has(subscription.plan_id)) {
+                const plan = await getPlan(subscription.plan_id);
+                planNames.set(subscription.plan_id, plan?.name || subscription.plan_id);
+            }
+
+            const planName = planNames.get(subscription.plan_id)!;
+            await sendMail(subscription.is_trial ? {
+                to: user.email,
+                subject: `Free trial ${planName} Anda berakhir dalam ${daysLeft} hari`,
+                html: renderTrialReminderEmail(planName, expiresAt, daysLeft),
+            } : {
+                to: user.email,
+                subject: `Paket ${planName} Anda berakhir dalam ${daysLeft} hari`,
+                html: renderReminderEmail(planName, expiresAt, daysLeft, subscription.cancel_at_period_end),
+            });
+            result.sent++;
+        } catch (sendError) {
+            console.error(`Failed to send renewal reminder to user ${subscription.user_id}:`, sendError);
+            // Release the claim so the next run tries again
+            await supabaseAdmin
+                .from('renewal_reminders')
+                .delete()
+                .eq('user_id', subscription.user_id)
+                .eq('expires_at', subscription.expires_at)
+                .eq('days_before', offset);
+            result.failed++;
+        }
+    }
+
+    return result;
+}
+
+export async function runSubscriptionSweep(now = new Date()): Promise<SweepResult> {
+    return {
+        subscriptions: await sweepExpiredSubscriptions(now),
+        // After lapsing, so owners that just dropped off a group plan free their seats
+        seats: { released: await releaseLapsedSeats() },
+        transactions: await expireStaleTransactions(now),
+        reminders: await sendRenewalReminders(now),
+        referrals: await retryReferralRewards(now),
+    };
+}
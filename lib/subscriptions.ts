@@ -0,0 +1,427 @@
+// lib/subscriptions.ts
+// Single place that writes plan changes to user_subscriptions. Payment
+// callbacks, admin plan changes and the user's own subscription management
+// all go through here so they cannot drift apart again.
+import { supabaseAdmin } from './supabase';
+import { addPlanDuration, adjustCharge, getPlan, Plan, PlanCharge } from './plans';
+
+export const FREE_PLAN_ID = 'free';
+
+export interface SubscriptionRow {
+    user_id: string;
+    plan_id: string;
+    expires_at: string | null;
+    // Paid follow-up period (a cheaper plan bought while this one runs) that
+    // takes over when the current period ends
+    scheduled_plan_id: string | null;
+    scheduled_expires_at: string | null;
+    // Drop to free once the paid time runs out instead of renewing
+    cancel_at_period_end: boolean;
+    // The current period is a free trial (no payment behind it)
+    is_trial: boolean;
+    daily_usage: number;
+    last_reset_date: string | null;
+    // Admin block (see entitlements.ts)
+    is_blocked?: boolean;
+    blocked_until?: string | null;
+    block_reason?: string | null;
+    updated_at?: string | null;
+}
+
+export interface SubscriptionPeriod {
+    planId: string;
+    startsAt: string;
+    expiresAt: string | null;
+}
+
+const CLEAR_SCHEDULE = { scheduled_plan_id: null, scheduled_expires_at: null, cancel_at_period_end: false };
+
+export async function getSubscription(userId: string): Promise<SubscriptionRow | null> {
+    const { data, error } = await supabaseAdmin
+        .from('user_subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching subscription:', error);
+        return null;
+    }
+
+    return data as SubscriptionRow | null;
+}
+
+export function isSubscriptionActive(subscription: Pick<SubscriptionRow, 'plan_id' | 'expires_at'> | null, now = new Date()): boolean {
+    if (!subscription || subscription.plan_id === FREE_PLAN_ID) return false;
+    // Paid plans without an expiry (e.g. set manually) never lapse
+    if (!subscription.expires_at) return true;
+    return new Date(subscription.expires_at) > now;
+}
+
+async function writeSubscription(userId: string, values: Record<string, unknown>) {
+    const { error } = await supabaseAdmin
+        .from('user_subscriptions')
+        .upsert({
+            user_id: userId,
+            ...values,
+            updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' });
+
+    if (error) {
+        throw error;
+    }
+}
+
+// Value of the unused part of a plan between two dates, pro-rated on the
+// length of one plan term
+export function remainingValue(plan: Plan, from: Date, until: Date): number {
+    const price = Number(plan.price);
+    if (until <= from || !(price > 0)) return 0;
+
+    const termMs = addPlanDuration(from, plan).getTime() - from.getTime();
+    return Math.floor(price * (until.getTime() - from.getTime()) / termMs);
+}
+
+// Grant `quantity` terms of a paid plan:
+// - renewing the current plan stacks on top of the current expiry
+// - buying a cheaper plan while a period is running queues it after that
+//   period (only one follow-up period is kept, so time left on an earlier
+//   follow-up of another plan is carried over onto the new one)
+// - anything else (upgrades, no active plan) starts the new term now; with
+//   `keepCurrent` (gifts, which get no upgrade credit) the time left on the
+//   current plan becomes the follow-up period instead of being dropped
+export async function grantPlan(userId: string, plan: Plan, quantity = 1, options: { keepCurrent?: boolean } = {}): Promise<SubscriptionPeriod> {
+    const current = await getSubscription(userId);
+    const now = new Date();
+    const running = isSubscriptionActive(current, now) && !!current?.expires_at;
+
+    if (running && current!.plan_id === plan.id) {
+        const startsAt = new Date(current!.expires_at!);
+        const expiresAt = addPlanDuration(startsAt, plan, quantity);
+        // A paid follow-up period moves back by the same amount
+        const shift = expiresAt.getTime() - startsAt.getTime();
+
+        // Paying again means the user no longer wants to cancel
+        await writeSubscription(userId, {
+            plan_id: plan.id,
+            expires_at: expiresAt.toISOString(),
+            cancel_at_period_end: false,
+            is_trial: false,
+            ...(current!.scheduled_expires_at && {
+                scheduled_expires_at: new Date(new Date(current!.scheduled_expires_at).getTime() + shift).toISOString()
+            })
+        });
+
+        return { planId: plan.id, startsAt: startsAt.toISOString(), expiresAt: expiresAt.toISOString() };
+    }
+
+    if (running) {
+        const currentPlan = await getPlan(current!.plan_id);
+
+        if (currentPlan && Number(plan.price) < Number(currentPlan.price)) {
+            const startsAt = new Date(current!.scheduled_expires_at || current!.expires_at!);
+            const expiresAt = addPlanDuration(startsAt, plan, quantity);
+
+            await writeSubscription(userId, {
+                scheduled_plan_id: plan.id,
+                scheduled_expires_at: expiresAt.toISOString(),
+                cancel_at_period_end: false
+            });
+
+            return { planId: plan.id, startsAt: startsAt.toISOString(), expiresAt: expiresAt.toISOString() };
+        }
+    }
+
+    // The unused value of a replaced plan was already credited at checkout
+    const expiresAt = addPlanDuration(now, plan, quantity);
+
+    if (options.keepCurrent && running) {
+        const carriedMs = new Date(current!.scheduled_expires_at || current!.expires_at!).getTime() - now.getTime();
+
+        await writeSubscription(userId, {
+            plan_id: plan.id,
+            expires_at: expiresAt.toISOString(),
+            scheduled_plan_id: current!.plan_id,
+            scheduled_expires_at: new Date(expiresAt.getTime() + carriedMs).toISOString(),
+            cancel_at_period_end: false,
+            is_trial: false
+        });
+
+        return { planId: plan.id, startsAt: now.toISOString(), expiresAt: expiresAt.toISOString() };
+    }
+
+    await writeSubscription(userId, {
+        plan_id: plan.id,
+        expires_at: expiresAt.toISOString(),
+        is_trial: false,
+        ...CLEAR_SCHEDULE
+    });
+
+    return { planId: plan.id, startsAt: now.toISOString(), expiresAt: expiresAt.toISOString() };
+}
+
+// Credit the unused value of the user's current paid plan (and of a paid
+// follow-up period) against an upgrade to a more expensive plan
+export async function applyUpgradeCredit(charge: PlanCharge, userId: string, now = new Date()): Promise<PlanCharge> {
+    const current = await getSubscription(userId);
+
+    if (!isSubscriptionActive(current, now) || !current?.expires_at || current.plan_id === charge.plan.id) {
+        return charge;
+    }
+
+    const currentPlan = await getPlan(current.plan_id);
+    if (!currentPlan || Number(currentPlan.price) >= Number(charge.plan.price)) {
+        return charge;
+    }
+
+    // Trial time was never paid for, so it is worth nothing
+    let credit = current.is_trial ? 0 : remainingValue(currentPlan, now, new Date(current.expires_at));
+    let creditUntil = current.expires_at;
+
+    if (current.scheduled_plan_id && current.scheduled_expires_at) {
+        const scheduledPlan = await getPlan(current.scheduled_plan_id);
+        if (scheduledPlan) {
+            credit += remainingValue(scheduledPlan, new Date(current.expires_at), new Date(current.scheduled_expires_at));
+            creditUntil = current.scheduled_expires_at;
+        }
+    }
+
+    // Never let the credit make the order free
+    credit = Math.min(credit, charge.subtotal - charge.discount - 1);
+    if (credit <= 0) {
+        return charge;
+    }
+
+    return adjustCharge(charge, { credit, creditFromPlanId: currentPlan.id, creditUntil });
+}
+
+// Whether the upgrade credit given at checkout is still backed by the user's
+// subscription when the payment arrives: the plan upgraded from is still the
+// current plan and its paid time has not been cut short since (by another
+// upgrade, a plan change or a refund)
+export async function upgradeCreditStillApplies(transaction: {
+    user_id: string;
+    upgrade_from_plan_id?: string | null;
+    upgrade_from_expires_at?: string | null;
+}, now = new Date()): Promise<boolean> {
+    const current = await getSubscription(transaction.user_id);
+
+    if (!isSubscriptionActive(current, now) || !current?.expires_at || current.plan_id !== transaction.upgrade_from_plan_id) {
+        return false;
+    }
+
+    if (!transaction.upgrade_from_expires_at) {
+        return true;
+    }
+
+    const paidUntil = new Date(current.scheduled_expires_at || current.expires_at);
+    return paidUntil >= new Date(transaction.upgrade_from_expires_at);
+}
+
+// Cancel at the end of the paid time: the user keeps their plan (and any paid
+// follow-up period) and drops to free when it runs out. Returns when that
+// happens, or null if there was no end date and the downgrade applied now.
+export async function cancelAtPeriodEnd(userId: string): Promise<{ effectiveAt: string | null }> {
+    const current = await getSubscription(userId);
+
+    if (!current?.expires_at) {
+        await downgradeToFree(userId, { resetUsage: true });
+        return { effectiveAt: null };
+    }
+
+    await writeSubscription(userId, { cancel_at_period_end: true });
+
+    return { effectiveAt: current.scheduled_expires_at || current.expires_at };
+}
+
+// Undo a pending cancellation. Returns false if there was nothing to undo.
+export async function resumeSubscription(userId: string): Promise<boolean> {
+    const current = await getSubscription(userId);
+
+    if (!current?.cancel_at_period_end || !isSubscriptionActive(current)) {
+        return false;
+    }
+
+    await writeSubscription(userId, { cancel_at_period_end: false });
+    return true;
+}
+
+// Start a free trial of a paid plan. When it ends the subscription lapses
+// to free like any other period; paying for the plan stacks on top of it.
+export async function grantTrial(userId: string, plan: Plan, endsAt: Date): Promise<SubscriptionPeriod> {
+    await writeSubscription(userId, {
+        plan_id: plan.id,
+        expires_at: endsAt.toISOString(),
+        is_trial: true,
+        ...CLEAR_SCHEDULE
+    });
+
+    return { planId: plan.id, startsAt: new Date().toISOString(), expiresAt: endsAt.toISOString() };
+}
+
+// Free days of a paid plan (referral rewards). They are added to the end of
+// the paid time the user already has: onto the current period when it is the
+// same plan, otherwise as the follow-up period. Without any paid time the
+// plan starts now.
+export async function grantBonusDays(userId: string, plan: Plan, days: number): Promise<SubscriptionPeriod> {
+    const current = await getSubscription(userId);
+    const now = new Date();
+    const extraMs = days * 24 * 60 * 60 * 1000;
+
+    if (isSubscriptionActive(current, now)) {
+        // Paid plans without an expiry already never lapse
+        if (!current!.expires_at) {
+            return { planId: current!.plan_id, startsAt: now.toISOString(), expiresAt: null };
+        }
+
+        if (current!.plan_id === plan.id) {
+            const startsAt = new Date(current!.expires_at);
+            const expiresAt = new Date(startsAt.getTime() + extraMs);
+
+            await writeSubscription(userId, {
+                expires_at: expiresAt.toISOString(),
+                ...(current!.scheduled_expires_at && {
+                    scheduled_expires_at: new Date(new Date(current!.scheduled_expires_at).getTime() + extraMs).toISOString()
+                })
+            });
+
+            return { planId: plan.id, startsAt: startsAt.toISOString(), expiresAt: expiresAt.toISOString() };
+        }
+
+        // Time left on a follow-up of another plan is carried over, as in grantPlan
+        const startsAt = new Date(current!.scheduled_expires_at || current!.expires_at);
+        const expiresAt = new Date(startsAt.getTime() + extraMs);
+
+        await writeSubscription(userId, {
+            scheduled_plan_id: plan.id,
+            scheduled_expires_at: expiresAt.toISOString()
+        });
+
+        return { planId: plan.id, startsAt: startsAt.toISOString(), expiresAt: expiresAt.toISOString() };
+    }
+
+    const expiresAt = new Date(now.getTime() + extraMs);
+
+    await writeSubscription(userId, {
+        plan_id: plan.id,
+        expires_at: expiresAt.toISOString(),
+        is_trial: false,
+        ...CLEAR_SCHEDULE
+    });
+
+    return { planId: plan.id, startsAt: now.toISOString(), expiresAt: expiresAt.toISOString() };
+}
+
+// Set a plan directly (admin change_plan, self-service plan switches).
+// Without an explicit expiry, a paid plan keeps the current unexpired period
+// or gets a single term from now.
+export async function changePlan(userId: string, plan: Plan, options: { expiresAt?: string | null; resetUsage?: boolean } = {}): Promise<SubscriptionPeriod> {
+    if (plan.id === FREE_PLAN_ID) {
+        return downgradeToFree(userId, { resetUsage: options.resetUsage });
+    }
+
+    const current = await getSubscription(userId);
+    const now = new Date();
+
+    let expiresAt: string | null;
+    if (options.expiresAt !== undefined) {
+        expiresAt = options.expiresAt;
+    } else if (isSubscriptionActive(current, now)) {
+        expiresAt = current!.expires_at;
+    } else {
+        expiresAt = addPlanDuration(now, plan).toISOString();
+    }
+
+    await writeSubscription(userId, {
+        plan_id: plan.id,
+        expires_at: expiresAt,
+        is_trial: false,
+        ...CLEAR_SCHEDULE,
+        ...(options.resetUsage && { daily_usage: 0 })
+    });
+
+    return { planId: plan.id, startsAt: now.toISOString(), expiresAt };
+}
+
+export async function downgradeToFree(userId: string, options: { resetUsage?: boolean } = {}): Promise<SubscriptionPeriod> {
+    await writeSubscription(userId, {
+        plan_id: FREE_PLAN_ID,
+        expires_at: null,
+        is_trial: false,
+        ...CLEAR_SCHEDULE,
+        ...(options.resetUsage && { daily_usage: 0 })
+    });
+
+    return { planId: FREE_PLAN_ID, startsAt: new Date().toISOString(), expiresAt: null };
+}
+
+// Move a lapsed paid subscription on to what comes next: the paid follow-up
+// period if there is one, otherwise the free plan (also when the user
+// cancelled - cancelling never forfeits time that was paid for). Returns the plan now in
+// effect, or null when the subscription has not lapsed.
+export async function applyLapse(
+    subscription: Pick<SubscriptionRow, 'user_id' | 'plan_id' | 'expires_at' | 'scheduled_plan_id' | 'scheduled_expires_at'>,
+    now = new Date()
+): Promise<{ planId: string; expiresAt: string | null } | null> {
+    if (subscription.plan_id === FREE_PLAN_ID || isSubscriptionActive(subscription, now)) {
+        return null;
+    }
+
+    if (subscription.scheduled_plan_id && subscription.scheduled_expires_at &&
+        new Date(subscription.scheduled_expires_at) > now) {
+        await writeSubscription(subscription.user_id, {
+            plan_id: subscription.scheduled_plan_id,
+            expires_at: subscription.scheduled_expires_at,
+            scheduled_plan_id: null,
+            scheduled_expires_at: null,
+            is_trial: false
+        });
+        console.log(`Subscription for user ${subscription.user_id} moved to scheduled plan ${subscription.scheduled_plan_id}`);
+        return { planId: subscription.scheduled_plan_id, expiresAt: subscription.scheduled_expires_at };
+    }
+
+    await downgradeToFree(subscription.user_id);
+    console.log(`Subscription expired for user ${subscription.user_id}, downgraded to free plan`);
+    return { planId: FREE_PLAN_ID, expiresAt: null };
+}
+
+// Take `durationMs` of paid time for a plan back (refunds). The time comes out
+// of the period that plan is in: the current one, in which case a follow-up
+// period moves forward too, or a queued follow-up period.
+export async function revokePeriod(userId: string, planId: string, durationMs: number): Promise<{
+    action: 'downgraded' | 'shortened' | 'unchanged';
+    planId: string;
+    expiresAt: string | null;
+}> {
+    const current = await getSubscription(userId);
+
+    if (current && current.plan_id === planId && current.expires_at) {
+        const expiresAt = new Date(new Date(current.expires_at).getTime() - durationMs).toISOString();
+        const scheduledExpiresAt = current.scheduled_expires_at
+            ? new Date(new Date(current.scheduled_expires_at).getTime() - durationMs).toISOString()
+            : null;
+
+        await writeSubscription(userId, { expires_at: expiresAt, scheduled_expires_at: scheduledExpiresAt });
+
+        const next = await applyLapse({ ...current, expires_at: expiresAt, scheduled_expires_at: scheduledExpiresAt });
+        if (next) {
+            return { action: 'downgraded', ...next };
+        }
+
+        return { action: 'shortened', planId, expiresAt };
+    }
+
+    if (current && current.scheduled_plan_id === planId && current.scheduled_expires_at && current.expires_at) {
+        const scheduledExpiresAt = new Date(new Date(current.scheduled_expires_at).getTime() - durationMs);
+        const stillPaid = scheduledExpiresAt > new Date(current.expires_at);
+
+        // Nothing paid left of the follow-up: drop it altogether
+        await writeSubscription(userId, stillPaid
+            ? { scheduled_expires_at: scheduledExpiresAt.toISOString() }
+            : { scheduled_plan_id: null, scheduled_expires_at: null });
+
+        return { action: 'shortened', planId: current.plan_id, expiresAt: current.expires_at };
+    }
+
+    return { action: 'unchanged', planId: current?.plan_id || FREE_PLAN_ID, expiresAt: current?.expires_at || null };
+}
@@ -0,0 +1,115 @@
+// lib/timezone.ts
+// Users' local calendar days. Daily quotas reset at midnight in the timezone
+// stored on the user's profile, not at UTC midnight. A new timezone is kept
+// as pending until the current day has ended in both timezones (see
+// timezoneChangeEffectiveAt).
+import { supabaseAdmin } from './supabase';
+
+// Our main market; also used for users who never set a timezone
+export const DEFAULT_TIMEZONE = 'Asia/Jakarta';
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export interface UserTimeZone {
+    timeZone: string;
+    // Requested change that takes effect at effectiveAt
+    pending: { timeZone: string; effectiveAt: string } | null;
+}
+
+export async function getUserTimeZoneState(userId: string, now = new Date()): Promise<UserTimeZone> {
+    const { data, error } = await supabaseAdmin
+        .from('user_profiles')
+        .select('timezone, pending_timezone, timezone_effective_at')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching user timezone:', error);
+    }
+
+    const current = data?.timezone && isValidTimeZone(data.timezone) ? data.timezone : DEFAULT_TIMEZONE;
+    const pending = data?.pending_timezone && data.timezone_effective_at && isValidTimeZone(data.pending_timezone)
+        ? { timeZone: data.pending_timezone as string, effectiveAt: data.timezone_effective_at as string }
+        : null;
+
+    if (!pending) {
+        return { timeZone: current, pending: null };
+    }
+
+    if (new Date(pending.effectiveAt) > now) {
+        return { timeZone: current, pending };
+    }
+
+    // The change is due: store it as the timezone (only if nobody changed it meanwhile)
+    const { error: promoteError } = await supabaseAdmin
+        .from('user_profiles')
+        .update({ timezone: pending.timeZone, pending_timezone: null, timezone_effective_at: null })
+        .eq('user_id', userId)
+        .eq('pending_timezone', pending.timeZone)
+        .eq('timezone_effective_at', pending.effectiveAt);
+
+    if (promoteError) {
+        console.error('Error applying pending timezone:', promoteError);
+    }
+
+    return { timeZone: pending.timeZone, pending: null };
+}
+
+export async function getUserTimeZone(userId: string, now = new Date()): Promise<string> {
+    return (await getUserTimeZoneState(userId, now)).timeZone;
+}
+
+function localParts(date: Date, timeZone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// How far the timezone is ahead of UTC at a given moment
+function offsetMs(date: Date, timeZone: string): number {
+    const p = localParts(date, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The user's calendar day as YYYY-MM-DD
+export function localDay(now: Date, timeZone: string): string {
+    const p = localParts(now, timeZone);
+    return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+// The next local midnight, when the current day's counters reset
+export function nextLocalMidnight(now: Date, timeZone: string): Date {
+    const p = localParts(now, timeZone);
+    const midnightAsUtc = Date.UTC(p.year, p.month - 1, p.day + 1);
+
+    // Correct with the offset at the result itself, in case DST changes today
+    const guess = new Date(midnightAsUtc - offsetMs(now, timeZone));
+    return new Date(midnightAsUtc - offsetMs(guess, timeZone));
+}
+
+// When a change from one timezone to another may take effect: once the
+// current day has ended in both. Switching any earlier could move the user
+// into a day they have not used yet and hand out a fresh daily allowance.
+export function timezoneChangeEffectiveAt(now: Date, from: string, to: string): Date {
+    const fromMidnight = nextLocalMidnight(now, from);
+    const toMidnight = nextLocalMidnight(now, to);
+    return fromMidnight > toMidnight ? fromMidnight : toMidnight;
+}
@@ -0,0 +1,123 @@
+// lib/trials.ts
+// Free trials of paid plans. A plan offers a trial when `trial_days` is set;
+// every user (and every email identity, see email-identity.ts) gets one
+// trial in total. The trial is a normal subscription period flagged
+// `is_trial`, so it lapses to free on its own and paying stacks on top of it.
+import { supabaseAdmin } from './supabase';
+import { getPlan, Plan } from './plans';
+import { getSubscription, grantTrial, isSubscriptionActive, SubscriptionPeriod } from './subscriptions';
+import { getEmailIdentity } from './email-identity';
+import { recordBillingEvent } from './billing-history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TrialError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'TrialError';
+        this.status = status;
+    }
+}
+
+export interface TrialUser {
+    id: string;
+    email?: string | null;
+}
+
+export function planTrialDays(plan: Pick<Plan, 'trial_days' | 'price'>): number {
+    const days = Number(plan.trial_days);
+    return Number(plan.price) > 0 && Number.isInteger(days) && days > 0 ? days : 0;
+}
+
+// Why the user cannot start a trial, or null if they can
+async function ineligibleReason(user: TrialUser): Promise<{ message: string; status: number } | null> {
+    if (!user.email) {
+        return { message: 'Akun Anda belum memiliki email', status: 400 };
+    }
+
+    for (const [column, value] of [['user_id', user.id], ['identity', getEmailIdentity(user.email)]]) {
+        const { data: used, error } = await supabaseAdmin
+            .from('trials')
+            .select('id')
+            .eq(column, value)
+            .limit(1);
+
+        if (error) throw error;
+        if (used && used.length > 0) {
+            return { message: 'Anda sudah pernah menggunakan free trial', status: 409 };
+        }
+    }
+
+    if (isSubscriptionActive(await getSubscription(user.id))) {
+        return { message: 'Free trial hanya untuk pengguna tanpa paket aktif', status: 409 };
+    }
+
+    return null;
+}
+
+// Whether the user can still start a trial (used by GET /api/subscription/trial)
+export async function getTrialEligibility(user: TrialUser): Promise<{ eligible: boolean; reason: string | null }> {
+    const reason = await ineligibleReason(user);
+    return { eligible: !reason, reason: reason?.message || null };
+}
+
+export async function startTrial(user: TrialUser, planId: string): Promise<{ plan: Plan; period: SubscriptionPeriod }> {
+    const plan = await getPlan(planId);
+    if (!plan) {
+        throw new TrialError('Invalid plan');
+    }
+
+    const days = planTrialDays(plan);
+    if (days === 0) {
+        throw new TrialError(`Paket ${plan.name} tidak memiliki free trial`);
+    }
+
+    const reason = await ineligibleReason(user);
+    if (reason) {
+        throw new TrialError(reason.message, reason.status);
+    }
+
+    const now = new Date();
+    const endsAt = new Date(now.getTime() + days * DAY_MS);
+
+    // Claim the trial first; the unique keys stop concurrent or repeated claims
+    const { data: trial, error: claimError } = await supabaseAdmin
+        .from('trials')
+        .insert({
+            user_id: user.id,
+            identity: getEmailIdentity(user.email!),
+            plan_id: plan.id,
+            started_at: now.toISOString(),
+            ends_at: endsAt.toISOString(),
+        })
+        .select('id')
+        .single();
+
+    if (claimError) {
+        if (claimError.code === '23505') {
+            throw new TrialError('Anda sudah pernah menggunakan free trial', 409);
+        }
+        throw claimError;
+    }
+
+    let period: SubscriptionPeriod;
+    try {
+        period = await grantTrial(user.id, plan, endsAt);
+    } catch (grantError) {
+        await supabaseAdmin.from('trials').delete().eq('id', trial.id);
+        throw grantError;
+    }
+
+    await recordBillingEvent({
+        userId: user.id,
+        type: 'trial',
+        title: `Free trial ${plan.name}`,
+        description: `Free trial ${plan.name} selama ${days} hari, berakhir ${endsAt.toLocaleDateString('id-ID')}. ` +
+            'Setelah itu akun kembali ke paket Free kecuali Anda berlangganan.',
+        metadata: { trial_id: trial.id, ends_at: period.expiresAt },
+    });
+
+    return { plan, period };
+}
@@ -1,239 +1,199 @@
 // lib/tripay.ts
 import crypto from 'crypto';
-
-const TRIPAY_API_KEY = process.env.TRIPAY_API_KEY || '';
-const TRIPAY_PRIVATE_KEY = process.env.TRIPAY_PRIVATE_KEY || '';
-const TRIPAY_MERCHANT_CODE = process.env.TRIPAY_MERCHANT_CODE || '';
-const IS_PRODUCTION = process.env.TRIPAY_IS_PRODUCTION === 'true';
-
-const BASE_URL = IS_PRODUCTION
-    ? 'https://tripay.co.id/api'
-    : 'https://tripay.co.id/api-sandbox';
-
-interface TripayChannel {
-    group: string;
-    code: string;
-    name: string;
-    type: string;
-    fee_merchant: { flat: number; percent: string };
-    fee_customer: { flat: number; percent: string };
-    total_fee: { flat: number; percent: string };
-    minimum_fee: number;
-    maximum_fee: number;
-    icon_url: string;
-    active: boolean;
-}
-
-interface TripayTransaction {
-    reference: string;
-    merchant_ref: string;
-    payment_selection_type: string;
-    payment_method: string;
-    payment_name: string;
-    customer_name: string;
-    customer_email: string;
-    customer_phone: string;
-    callback_url: string;
-    return_url: string;
-    amount: number;
-    fee_merchant: number;
-    fee_customer: number;
-    total_fee: number;
-    amount_received: number;
-    pay_code: string;
-    pay_url: string | null;
-    checkout_url: string;
-    status: string;
-    expired_time: number;
-    order_items: Array<{
-        sku: string;
-        name: string;
-        price: number;
-        quantity: number;
-        subtotal: number;
-    }>;
-    instructions: Array<{
-        title: string;
-        steps: string[];
-    }>;
-    qr_string?: string;
-    qr_url?: string;
-}
-
-// Generate signature for requests
-function generateSignature(merchantRef: string, amount: number): string {
-    const data = TRIPAY_MERCHANT_CODE + merchantRef + amount;
-    return crypto.createHmac('sha256', TRIPAY_PRIVATE_KEY).update(data).digest('hex');
+import type {
+    CallbackEvent,
+    CreateTransactionParams,
+    GatewayTransaction,
+    GatewayTransactionPage,
+    GatewayTransactionSummary,
+    PaymentChannel,
+    PaymentGateway,
+} from './payment-gateway';
+import { mapTripayStyleStatus } from './payment-gateway';
+
+export interface TripayConfig {
+    apiKey: string;
+    privateKey: string;
+    merchantCode: string;
+    isProduction: boolean;
 }
 
-// Generate callback signature for verification
-export function generateCallbackSignature(data: string): string {
-    return crypto.createHmac('sha256', TRIPAY_PRIVATE_KEY).update(data).digest('hex');
+export function tripayConfigFromEnv(): TripayConfig {
+    return {
+        apiKey: process.env.TRIPAY_API_KEY || '',
+        privateKey: process.env.TRIPAY_PRIVATE_KEY || '',
+        merchantCode: process.env.TRIPAY_MERCHANT_CODE || '',
+        isProduction: process.env.TRIPAY_IS_PRODUCTION === 'true',
+    };
 }
 
-// Get available payment channels
-export async function getPaymentChannels(): Promise<TripayChannel[]> {
-    try {
-        const response = await fetch(`${BASE_URL}/merchant/payment-channel`, {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${TRIPAY_API_KEY}`,
-            },
-        });
+export function createTripayGateway(config: TripayConfig): PaymentGateway {
+    const baseUrl = config.isProduction
+        ? 'https://tripay.co.id/api'
+        : 'https://tripay.co.id/api-sandbox';
 
-        const result = await response.json();
-
-        if (!result.success) {
-            throw new Error(result.message || 'Failed to get payment channels');
-        }
+    // Generate signature for requests
+    function generateSignature(merchantRef: string, amount: number): string {
+        const data = config.merchantCode + merchantRef + amount;
+        return crypto.createHmac('sha256', config.privateKey).update(data).digest('hex');
+    }
 
-        return result.data;
-    } catch (error) {
-        console.error('Error getting payment channels:', error);
-        throw error;
+    // Generate callback signature for verification
+    function generateCallbackSignature(data: string): string {
+        return crypto.createHmac('sha256', config.privateKey).update(data).digest('hex');
     }
-}
 
-// Create closed payment transaction
-export async function createTransaction(params: {
-    method: string;
-    merchantRef: string;
-    amount: number;
-    customerName: string;
-    customerEmail: string;
-    customerPhone?: string;
-    orderItems: Array<{
-        sku?: string;
-        name: string;
-        price: number;
-        quantity: number;
-    }>;
-    callbackUrl: string;
-    returnUrl: string;
-    expiredTime?: number; // in seconds, default 24 hours
-}): Promise<TripayTransaction> {
-    const {
-        method,
-        merchantRef,
-        amount,
-        customerName,
-        customerEmail,
-        customerPhone = '',
-        orderItems,
-        callbackUrl,
-        returnUrl,
-        expiredTime = 24 * 60 * 60, // 24 hours default
-    } = params;
-
-    const signature = generateSignature(merchantRef, amount);
-    const expiry = Math.floor(Date.now() / 1000) + expiredTime;
-
-    const payload = {
-        method,
-        merchant_ref: merchantRef,
-        amount,
-        customer_name: customerName,
-        customer_email: customerEmail,
-        customer_phone: customerPhone,
-        order_items: orderItems.map(item => ({
-            sku: item.sku || item.name.toLowerCase().replace(/\s+/g, '-'),
-            name: item.name,
-            price: item.price,
-            quantity: item.quantity,
-            subtotal: item.price * item.quantity,
-        })),
-        callback_url: callbackUrl,
-        return_url: returnUrl,
-        expired_time: expiry,
-        signature,
-    };
+    async function request<T>(path: string, init: RequestInit = {}, errorMessage: string): Promise<T> {
+        return (await requestRaw<{ data: T }>(path, init, errorMessage)).data;
+    }
 
-    try {
-        const response = await fetch(`${BASE_URL}/transaction/create`, {
-            method: 'POST',
+    // Full response body, for endpoints that return more than `data`
+    async function requestRaw<T>(path: string, init: RequestInit = {}, errorMessage: string): Promise<T> {
+        const response = await fetch(`${baseUrl}${path}`, {
+            ...init,
             headers: {
-                'Authorization': `Bearer ${TRIPAY_API_KEY}`,
-                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${config.apiKey}`,
+                ...init.headers,
             },
-            body: JSON.stringify(payload),
         });
 
         const result = await response.json();
 
         if (!result.success) {
             console.error('Tripay error:', result);
-            throw new Error(result.message || 'Failed to create transaction');
+            throw new Error(result.message || errorMessage);
         }
 
-        return result.data;
-    } catch (error) {
-        console.error('Error creating transaction:', error);
-        throw error;
+        return result;
     }
-}
 
-// Get transaction detail
-export async function getTransactionDetail(reference: string): Promise<TripayTransaction> {
-    try {
-        const response = await fetch(`${BASE_URL}/transaction/detail?reference=${reference}`, {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${TRIPAY_API_KEY}`,
-            },
-        });
+    // Get available payment channels
+    async function getPaymentChannels(): Promise<PaymentChannel[]> {
+        try {
+            return await request<PaymentChannel[]>('/merchant/payment-channel', { method: 'GET' }, 'Failed to get payment channels');
+        } catch (error) {
+            console.error('Error getting payment channels:', error);
+            throw error;
+        }
+    }
 
-        const result = await response.json();
+    // Create closed payment transaction
+    async function createTransaction(params: CreateTransactionParams): Promise<GatewayTransaction> {
+        const {
+            method,
+            merchantRef,
+            amount,
+            customerName,
+            customerEmail,
+            customerPhone = '',
+            orderItems,
+            callbackUrl,
+            returnUrl,
+            expiredTime = 24 * 60 * 60, // 24 hours default
+        } = params;
+
+        const signature = generateSignature(merchantRef, amount);
+        const expiry = Math.floor(Date.now() / 1000) + expiredTime;
+
+        const payload = {
+            method,
+            merchant_ref: merchantRef,
+            amount,
+            customer_name: customerName,
+            customer_email: customerEmail,
+            customer_phone: customerPhone,
+            order_items: orderItems.map(item => ({
+                sku: item.sku || item.name.toLowerCase().replace(/\s+/g, '-'),
+                name: item.name,
+                price: item.price,
+                quantity: item.quantity,
+                subtotal: item.price * item.quantity,
+            })),
+            callback_url: callbackUrl,
+            return_url: returnUrl,
+            expired_time: expiry,
+            signature,
+        };
 
-        if (!result.success) {
-            throw new Error(result.message || 'Failed to get transaction detail');
+        try {
+            return await request<GatewayTransaction>('/transaction/create', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            }, 'Failed to create transaction');
+        } catch (error) {
+            console.error('Error creating transaction:', error);
+            throw error;
         }
-
-        return result.data;
-    } catch (error) {
-        console.error('Error getting transaction detail:', error);
-        throw error;
     }
-}
 
-// Verify callback signature
-export function verifyCallbackSignature(jsonData: string, receivedSignature: string): boolean {
-    const calculatedSignature = generateCallbackSignature(jsonData);
-    return calculatedSignature === receivedSignature;
-}
+    // Get transaction detail
+    async function getTransactionDetail(reference: string): Promise<GatewayTransaction> {
+        try {
+            return await request<GatewayTransaction>(
+                `/transaction/detail?reference=${encodeURIComponent(reference)}`,
+                { method: 'GET' },
+                'Failed to get transaction detail'
+            );
+        } catch (error) {
+            console.error('Error getting transaction detail:', error);
+            throw error;
+        }
+    }
 
-// Calculate fee for a payment method
-export async function calculateFee(code: string, amount: number): Promise<{
-    code: string;
-    name: string;
-    fee: number;
-    total: number;
-}> {
-    try {
-        const response = await fetch(
-            `${BASE_URL}/merchant/fee-calculator?code=${code}&amount=${amount}`,
-            {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${TRIPAY_API_KEY}`,
-                },
-            }
-        );
+    // List merchant transactions, newest first
+    async function listTransactions(page = 1, perPage = 50): Promise<GatewayTransactionPage> {
+        try {
+            const result = await requestRaw<{
+                data: GatewayTransactionSummary[];
+                pagination: { current_page: number; last_page: number };
+            }>(
+                `/merchant/transactions?page=${page}&per_page=${perPage}&sort=desc`,
+                { method: 'GET' },
+                'Failed to list transactions'
+            );
+
+            return {
+                transactions: result.data,
+                page: result.pagination?.current_page ?? page,
+                lastPage: result.pagination?.last_page ?? page,
+            };
+        } catch (error) {
+            console.error('Error listing transactions:', error);
+            throw error;
+        }
+    }
 
-        const result = await response.json();
+    // Verify callback signature and parse the payment_status event
+    function verifyCallback(rawBody: string, headers: Headers): CallbackEvent | null {
+        const receivedSignature = headers.get('X-Callback-Signature');
+        if (!receivedSignature) return null;
 
-        if (!result.success) {
-            throw new Error(result.message || 'Failed to calculate fee');
+        const calculatedSignature = generateCallbackSignature(rawBody);
+        if (calculatedSignature.length !== receivedSignature.length ||
+            !crypto.timingSafeEqual(Buffer.from(calculatedSignature), Buffer.from(receivedSignature))) {
+            return null;
         }
 
-        const data = result.data[0];
+        const body = JSON.parse(rawBody);
         return {
-            code: data.code,
-            name: data.name,
-            fee: data.total_fee.customer,
-            total: amount + data.total_fee.customer,
+            reference: body.reference,
+            merchantRef: body.merchant_ref,
+            status: mapTripayStyleStatus(body.status),
+            rawStatus: body.status,
+            amountReceived: body.amount_received ?? null,
+            paidAt: body.paid_at ?? null,
+            payload: body,
         };
-    } catch (error) {
-        console.error('Error calculating fee:', error);
-        throw error;
     }
+
+    return {
+        name: 'tripay',
+        getPaymentChannels,
+        createTransaction,
+        getTransactionDetail,
+        listTransactions,
+        verifyCallback,
+        mapStatus: mapTripayStyleStatus,
+    };
 }
@@ -0,0 +1,147 @@
+// lib/vouchers.ts
+import { supabaseAdmin } from './supabase';
+import { adjustCharge, PlanCharge } from './plans';
+
+export interface Voucher {
+    id: string;
+    code: string;
+    description: string | null;
+    discount_type: 'percentage' | 'flat';
+    discount_value: number;
+    max_discount: number | null;
+    plan_ids: string[] | null;
+    max_redemptions: number | null;
+    per_user_limit: number;
+    starts_at: string | null;
+    ends_at: string | null;
+    is_active: boolean;
+}
+
+export type RedemptionStatus = 'reserved' | 'redeemed' | 'released';
+
+export class VoucherError extends Error {
+    status: number;
+    code: string;
+
+    constructor(code: string, message: string, status = 400) {
+        super(message);
+        this.name = 'VoucherError';
+        this.code = code;
+        this.status = status;
+    }
+}
+
+// Messages for the exceptions raised by create_checkout_transaction()
+const VOUCHER_MESSAGES: Record<string, string> = {
+    VOUCHER_INVALID: 'Kode voucher tidak valid',
+    VOUCHER_NOT_ACTIVE: 'Voucher belum berlaku atau sudah kedaluwarsa',
+    VOUCHER_PLAN: 'Voucher tidak berlaku untuk paket ini',
+    VOUCHER_EXHAUSTED: 'Kuota voucher sudah habis',
+    VOUCHER_USER_LIMIT: 'Anda sudah menggunakan voucher ini',
+    VOUCHER_TOO_LARGE: 'Voucher tidak dapat membuat pesanan gratis',
+};
+
+export function voucherError(code: string): VoucherError {
+    return new VoucherError(code, VOUCHER_MESSAGES[code] || VOUCHER_MESSAGES.VOUCHER_INVALID, code === 'VOUCHER_EXHAUSTED' ? 409 : 400);
+}
+
+export function normalizeVoucherCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+export async function findVoucherByCode(code: string): Promise<Voucher | null> {
+    const { data, error } = await supabaseAdmin
+        .from('vouchers')
+        .select('*')
+        .eq('code', normalizeVoucherCode(code))
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching voucher:', error);
+        return null;
+    }
+
+    return data as Voucher | null;
+}
+
+async function countRedemptions(voucherId: string, userId?: string): Promise<number> {
+    let query = supabaseAdmin
+        .from('voucher_redemptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('voucher_id', voucherId)
+        .neq('status', 'released');
+
+    if (userId) query = query.eq('user_id', userId);
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+}
+
+export function calculateDiscount(voucher: Voucher, subtotal: number): number {
+    let discount = voucher.discount_type === 'percentage'
+        ? Math.floor(subtotal * voucher.discount_value / 100)
+        : voucher.discount_value;
+
+    if (voucher.max_discount !== null && voucher.max_discount !== undefined) {
+        discount = Math.min(discount, voucher.max_discount);
+    }
+
+    return Math.min(discount, subtotal);
+}
+
+// Check everything that can be checked before checkout. Redemption limits are
+// checked again, under a row lock, when the transaction is created.
+export async function validateVoucher(voucher: Voucher | null, planId: string, userId: string, now = new Date()): Promise<Voucher> {
+    if (!voucher || !voucher.is_active) {
+        throw voucherError('VOUCHER_INVALID');
+    }
+
+    if ((voucher.starts_at && new Date(voucher.starts_at) > now) ||
+        (voucher.ends_at && new Date(voucher.ends_at) < now)) {
+        throw voucherError('VOUCHER_NOT_ACTIVE');
+    }
+
+    if (voucher.plan_ids && voucher.plan_ids.length > 0 && !voucher.plan_ids.includes(planId)) {
+        throw voucherError('VOUCHER_PLAN');
+    }
+
+    if (voucher.max_redemptions !== null && await countRedemptions(voucher.id) >= voucher.max_redemptions) {
+        throw voucherError('VOUCHER_EXHAUSTED');
+    }
+
+    if (await countRedemptions(voucher.id, userId) >= voucher.per_user_limit) {
+        throw voucherError('VOUCHER_USER_LIMIT');
+    }
+
+    return voucher;
+}
+
+// Apply a validated voucher to a plan charge
+export function applyVoucher(charge: PlanCharge, voucher: Voucher): PlanCharge {
+    const discount = calculateDiscount(voucher, charge.subtotal);
+
+    if (charge.subtotal - discount - charge.credit <= 0) {
+        throw voucherError('VOUCHER_TOO_LARGE');
+    }
+
+    return adjustCharge(charge, { discount, voucher: { id: voucher.id, code: voucher.code } });
+}
+
+// Look up, validate and apply a voucher code in one go
+export async function applyVoucherCode(charge: PlanCharge, code: string, userId: string): Promise<PlanCharge> {
+    const voucher = await validateVoucher(await findVoucherByCode(code), charge.plan.id, userId);
+    return applyVoucher(charge, voucher);
+}
+
+export async function setRedemptionStatus(transactionId: string, status: RedemptionStatus): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('voucher_redemptions')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('transaction_id', transactionId)
+        .neq('status', status);
+
+    if (error) {
+        console.error('Error updating voucher redemption:', error);
+    }
+}
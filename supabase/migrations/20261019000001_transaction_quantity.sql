@@ -0,0 +1,3 @@
+-- Number of plan terms bought in a transaction (create-payment computes amount = plan price x quantity)
+alter table public.transactions
+    add column if not exists quantity integer not null default 1;
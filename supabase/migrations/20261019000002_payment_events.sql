@@ -0,0 +1,24 @@
+-- Ledger of every payment status event received from the gateway.
+-- The unique (reference, status) pair makes redelivered callbacks no-ops.
+create table if not exists public.payment_events (
+    id uuid primary key default gen_random_uuid(),
+    reference text not null,
+    merchant_ref text not null,
+    status text not null,
+    amount_received integer,
+    source text not null default 'callback',
+    payload jsonb,
+    outcome text,
+    message text,
+    created_at timestamptz not null default now(),
+    processed_at timestamptz,
+    unique (reference, status)
+);
+
+create index if not exists payment_events_merchant_ref_idx on public.payment_events (merchant_ref);
+
+alter table public.payment_events enable row level security;
+
+-- Set once when the subscription grant for a SUCCESS transaction has been applied
+alter table public.transactions
+    add column if not exists granted_at timestamptz;
@@ -0,0 +1,22 @@
+-- user_subscriptions is the single source of truth for a user's plan.
+-- The legacy subscriptions table written by the old Tripay callback is no longer used.
+alter table public.user_subscriptions
+    add column if not exists expires_at timestamptz,
+    add column if not exists updated_at timestamptz default now();
+
+-- Period a successful transaction paid for (renewals stack on the previous expiry)
+alter table public.transactions
+    add column if not exists period_start timestamptz,
+    add column if not exists period_end timestamptz;
+
+-- Carry over subscriptions granted by the old callback
+insert into public.user_subscriptions (user_id, plan_id, expires_at, daily_usage, last_reset_date)
+select s.user_id, s.plan_id, s.expires_at, 0, current_date
+from public.subscriptions s
+where s.status = 'active' and s.expires_at > now()
+on conflict (user_id) do update
+    set plan_id = excluded.plan_id,
+        expires_at = greatest(excluded.expires_at, coalesce(public.user_subscriptions.expires_at, excluded.expires_at)),
+        updated_at = now()
+    where public.user_subscriptions.plan_id = 'free'
+       or public.user_subscriptions.plan_id = excluded.plan_id;
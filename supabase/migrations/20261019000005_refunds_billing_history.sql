@@ -0,0 +1,92 @@
+-- Refunds recorded by admins or reported by the gateway
+create table if not exists public.refunds (
+    id uuid primary key default gen_random_uuid(),
+    transaction_id text not null references public.transactions (id) on delete cascade,
+    user_id uuid not null,
+    amount integer not null check (amount > 0),
+    reason text,
+    -- system: recorded automatically, e.g. an upgrade whose credit no longer applied
+    source text not null check (source in ('admin', 'gateway', 'system')),
+    subscription_action text,
+    created_by text,
+    created_at timestamptz not null default now(),
+    processed_at timestamptz
+);
+
+create index if not exists refunds_transaction_id_idx on public.refunds (transaction_id);
+create index if not exists refunds_user_id_idx on public.refunds (user_id);
+
+-- User facing log of what happened to their billing (payments, refunds, plan changes)
+create table if not exists public.billing_history (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    transaction_id text,
+    type text not null,
+    title text not null,
+    description text not null,
+    amount integer,
+    metadata jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists billing_history_user_id_idx on public.billing_history (user_id, created_at desc);
+
+alter table public.refunds enable row level security;
+alter table public.billing_history enable row level security;
+
+-- Insert a refund for a paid transaction. The transaction row is locked so
+-- concurrent refunds cannot together exceed its amount. p_amount null
+-- refunds whatever is left. Returns the refund and the total refunded before it.
+create or replace function public.record_refund(
+    p_transaction_id text,
+    p_amount integer,
+    p_reason text,
+    p_source text,
+    p_created_by text
+) returns table (refund_id uuid, amount integer, already_refunded integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_transaction public.transactions%rowtype;
+    v_refunded integer;
+    v_amount integer;
+    v_refund_id uuid;
+begin
+    select * into v_transaction from public.transactions where id = p_transaction_id for update;
+
+    if not found then
+        raise exception 'REFUND_NOT_FOUND';
+    end if;
+
+    if v_transaction.status not in ('SUCCESS', 'REFUNDED') then
+        raise exception 'REFUND_INVALID_STATUS';
+    end if;
+
+    select coalesce(sum(r.amount), 0) into v_refunded
+        from public.refunds r
+        where r.transaction_id = p_transaction_id;
+
+    if v_refunded >= v_transaction.amount then
+        raise exception 'REFUND_FULLY_REFUNDED';
+    end if;
+
+    v_amount := coalesce(p_amount, v_transaction.amount - v_refunded);
+
+    if v_amount <= 0 or v_amount > v_transaction.amount - v_refunded then
+        raise exception 'REFUND_INVALID_AMOUNT';
+    end if;
+
+    -- Inserted claimed (processed_at set) by the caller, which applies it;
+    -- if that fails processed_at is cleared and the next refund call retries
+    insert into public.refunds (transaction_id, user_id, amount, reason, source, created_by, processed_at)
+    values (p_transaction_id, v_transaction.user_id, v_amount, p_reason, p_source, p_created_by, now())
+    returning id into v_refund_id;
+
+    return query select v_refund_id, v_amount, v_refunded;
+end;
+$$;
+
+revoke execute on function public.record_refund(text, integer, text, text, text) from public, anon, authenticated;
+grant execute on function public.record_refund(text, integer, text, text, text) to service_role;
@@ -0,0 +1,106 @@
+-- Promo codes / vouchers for plan checkout
+create table if not exists public.vouchers (
+    id uuid primary key default gen_random_uuid(),
+    code text not null unique check (code = upper(code)),
+    description text,
+    discount_type text not null check (discount_type in ('percentage', 'flat')),
+    discount_value integer not null check (discount_value > 0),
+    max_discount integer, -- cap for percentage vouchers
+    plan_ids text[], -- null = every paid plan
+    max_redemptions integer, -- null = unlimited
+    per_user_limit integer not null default 1,
+    starts_at timestamptz,
+    ends_at timestamptz,
+    is_active boolean not null default true,
+    created_by text,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    check (discount_type <> 'percentage' or discount_value <= 100)
+);
+
+-- One row per checkout that used a voucher. Reserved when the transaction is
+-- created, redeemed when it is paid, released when it expires or fails.
+create table if not exists public.voucher_redemptions (
+    id uuid primary key default gen_random_uuid(),
+    voucher_id uuid not null references public.vouchers (id) on delete restrict,
+    user_id uuid not null,
+    transaction_id text not null unique references public.transactions (id) on delete cascade,
+    discount_amount integer not null,
+    status text not null default 'reserved' check (status in ('reserved', 'redeemed', 'released')),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists voucher_redemptions_voucher_idx on public.voucher_redemptions (voucher_id, user_id);
+
+alter table public.transactions
+    add column if not exists subtotal integer,
+    add column if not exists discount integer not null default 0,
+    add column if not exists voucher_id uuid references public.vouchers (id);
+
+alter table public.vouchers enable row level security;
+alter table public.voucher_redemptions enable row level security;
+
+-- Insert a PENDING checkout transaction and, when a voucher is used, its
+-- redemption in one database transaction. The voucher row is locked so
+-- max_redemptions and per_user_limit hold under concurrent checkouts.
+create or replace function public.create_checkout_transaction(
+    p_transaction jsonb,
+    p_voucher_id uuid default null,
+    p_discount integer default 0
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_voucher public.vouchers%rowtype;
+    v_user_id uuid := (p_transaction ->> 'user_id')::uuid;
+    v_total integer;
+    v_per_user integer;
+    v_columns text;
+begin
+    if p_voucher_id is not null then
+        select * into v_voucher from public.vouchers where id = p_voucher_id for update;
+
+        if not found or not v_voucher.is_active then
+            raise exception 'VOUCHER_INVALID';
+        end if;
+
+        if (v_voucher.starts_at is not null and v_voucher.starts_at > now())
+            or (v_voucher.ends_at is not null and v_voucher.ends_at < now()) then
+            raise exception 'VOUCHER_NOT_ACTIVE';
+        end if;
+
+        select count(*), count(*) filter (where user_id = v_user_id)
+            into v_total, v_per_user
+            from public.voucher_redemptions
+            where voucher_id = p_voucher_id and status <> 'released';
+
+        if v_voucher.max_redemptions is not null and v_total >= v_voucher.max_redemptions then
+            raise exception 'VOUCHER_EXHAUSTED';
+        end if;
+
+        if v_per_user >= v_voucher.per_user_limit then
+            raise exception 'VOUCHER_USER_LIMIT';
+        end if;
+    end if;
+
+    -- Only insert the keys that were provided so column defaults still apply
+    select string_agg(quote_ident(key), ', ') into v_columns from jsonb_object_keys(p_transaction) as key;
+
+    execute format(
+        'insert into public.transactions (%1$s) select %1$s from jsonb_populate_record(null::public.transactions, $1)',
+        v_columns
+    ) using p_transaction;
+
+    if p_voucher_id is not null then
+        insert into public.voucher_redemptions (voucher_id, user_id, transaction_id, discount_amount)
+        values (p_voucher_id, v_user_id, p_transaction ->> 'id', p_discount);
+    end if;
+end;
+$$;
+
+-- Only the server (service role) may call this; it trusts its arguments
+revoke execute on function public.create_checkout_transaction(jsonb, uuid, integer) from public, anon, authenticated;
+grant execute on function public.create_checkout_transaction(jsonb, uuid, integer) to service_role;
@@ -0,0 +1,20 @@
+-- Paid follow-up period: a cheaper plan bought while a period is running
+-- starts when that period ends and runs until scheduled_expires_at. Moving
+-- down to free is a cancellation instead (cancel_at_period_end, see
+-- 20261019000008).
+alter table public.user_subscriptions
+    add column if not exists scheduled_plan_id text references public.plans (id),
+    add column if not exists scheduled_expires_at timestamptz;
+
+-- Unused value of the previous plan credited against an upgrade
+alter table public.transactions
+    add column if not exists proration_credit integer not null default 0,
+    add column if not exists upgrade_from_plan_id text,
+    -- End of the paid time the credit was computed from; the credit only
+    -- still applies at payment if that time is still there
+    add column if not exists upgrade_from_expires_at timestamptz;
+
+-- One open upgrade checkout per user, so the same unused time cannot be
+-- credited against several upgrades
+create unique index if not exists transactions_pending_upgrade_idx
+    on public.transactions (user_id) where status = 'PENDING' and proration_credit > 0;
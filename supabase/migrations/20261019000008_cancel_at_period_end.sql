@@ -0,0 +1,3 @@
+-- Cancelled subscriptions keep their plan until the paid time runs out
+alter table public.user_subscriptions
+    add column if not exists cancel_at_period_end boolean not null default false;
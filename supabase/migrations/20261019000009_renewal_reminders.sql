@@ -0,0 +1,15 @@
+-- One row per renewal reminder sent, so each period gets each reminder once
+create table if not exists public.renewal_reminders (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    expires_at timestamptz not null,
+    days_before integer not null,
+    sent_at timestamptz not null default now(),
+    unique (user_id, expires_at, days_before)
+);
+
+alter table public.renewal_reminders enable row level security;
+
+-- Used by the expiry sweeper
+create index if not exists user_subscriptions_expires_at_idx on public.user_subscriptions (expires_at);
+create index if not exists transactions_pending_expired_at_idx on public.transactions (expired_at) where status = 'PENDING';
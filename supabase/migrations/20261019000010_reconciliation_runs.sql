@@ -0,0 +1,17 @@
+-- Reports of the gateway reconciliation job (lib/reconciliation.ts)
+create table if not exists public.reconciliation_runs (
+    id uuid primary key default gen_random_uuid(),
+    gateway text not null,
+    started_at timestamptz not null,
+    finished_at timestamptz,
+    checked integer not null default 0,
+    drifts jsonb not null default '[]'::jsonb,      -- status changes applied from the gateway
+    mismatches jsonb not null default '[]'::jsonb,  -- amount / amount_received differences
+    orphans jsonb not null default '[]'::jsonb,     -- gateway transactions with no transactions row
+    errors jsonb not null default '[]'::jsonb,
+    triggered_by text
+);
+
+create index if not exists reconciliation_runs_started_at_idx on public.reconciliation_runs (started_at desc);
+
+alter table public.reconciliation_runs enable row level security;
@@ -0,0 +1,6 @@
+-- Payment details shown on receipts
+alter table public.transactions
+    add column if not exists payment_name text,
+    add column if not exists fee_customer integer not null default 0,
+    -- Set once the receipt email went out
+    add column if not exists receipt_sent_at timestamptz;
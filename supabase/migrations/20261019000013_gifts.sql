@@ -0,0 +1,28 @@
+-- Gift purchases: the transaction pays for a plan for someone else's email
+alter table public.transactions
+    add column if not exists gift_recipient_email text,
+    add column if not exists gift_message text;
+
+-- One gift code per paid gift transaction
+create table if not exists public.gifts (
+    id uuid primary key default gen_random_uuid(),
+    code text not null unique,
+    transaction_id text not null unique references public.transactions (id) on delete cascade,
+    purchaser_id uuid not null,
+    recipient_email text not null,
+    message text,
+    plan_id text not null references public.plans (id),
+    quantity integer not null default 1 check (quantity > 0),
+    status text not null default 'issued' check (status in ('issued', 'redeemed', 'revoked')),
+    redeemed_by uuid,
+    redeemed_at timestamptz,
+    period_start timestamptz,
+    period_end timestamptz,
+    emailed_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists gifts_purchaser_id_idx on public.gifts (purchaser_id);
+create index if not exists gifts_recipient_email_idx on public.gifts (recipient_email);
+
+alter table public.gifts enable row level security;
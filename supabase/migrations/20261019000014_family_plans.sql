@@ -0,0 +1,59 @@
+-- Group plans: number of people covered, including the owner
+alter table public.plans
+    add column if not exists seats integer not null default 1 check (seats >= 1);
+
+-- Members of an owner's group plan
+create table if not exists public.plan_members (
+    id uuid primary key default gen_random_uuid(),
+    owner_id uuid not null,
+    member_email text not null,
+    member_id uuid,
+    status text not null default 'invited' check (status in ('invited', 'active', 'removed', 'released')),
+    invited_at timestamptz not null default now(),
+    joined_at timestamptz,
+    ended_at timestamptz
+);
+
+-- One open seat per email per owner, one active group per member
+create unique index if not exists plan_members_owner_email_idx
+    on public.plan_members (owner_id, member_email) where status in ('invited', 'active');
+create unique index if not exists plan_members_active_member_idx
+    on public.plan_members (member_id) where status = 'active';
+create index if not exists plan_members_member_email_idx on public.plan_members (member_email);
+
+alter table public.plan_members enable row level security;
+
+-- Insert an invite if the owner still has a free seat. Invites of the same
+-- owner are serialized with an advisory lock, so parallel invites cannot
+-- take more than p_max_members seats.
+create or replace function public.invite_plan_member(
+    p_owner_id uuid,
+    p_member_email text,
+    p_max_members integer
+) returns setof public.plan_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_taken integer;
+begin
+    perform pg_advisory_xact_lock(hashtext('plan_members:' || p_owner_id::text));
+
+    select count(*) into v_taken
+        from public.plan_members
+        where owner_id = p_owner_id and status in ('invited', 'active');
+
+    if v_taken >= p_max_members then
+        raise exception 'FAMILY_SEATS_FULL';
+    end if;
+
+    return query
+        insert into public.plan_members (owner_id, member_email, status)
+        values (p_owner_id, p_member_email, 'invited')
+        returning *;
+end;
+$$;
+
+revoke execute on function public.invite_plan_member(uuid, text, integer) from public, anon, authenticated;
+grant execute on function public.invite_plan_member(uuid, text, integer) to service_role;
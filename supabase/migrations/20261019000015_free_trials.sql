@@ -0,0 +1,20 @@
+-- Free trial length per plan; null means the plan has no trial
+alter table public.plans
+    add column if not exists trial_days integer check (trial_days > 0);
+
+-- The current subscription period is a trial (nothing was paid for it)
+alter table public.user_subscriptions
+    add column if not exists is_trial boolean not null default false;
+
+-- One trial per user and per email identity (normalized email, see
+-- lib/email-identity.ts)
+create table if not exists public.trials (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null unique,
+    identity text not null unique,
+    plan_id text not null references public.plans (id),
+    started_at timestamptz not null default now(),
+    ends_at timestamptz not null
+);
+
+alter table public.trials enable row level security;
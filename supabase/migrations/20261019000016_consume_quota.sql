@@ -0,0 +1,77 @@
+-- One skip counter row per user per day, so the counter can be upserted
+delete from public.daily_skips a
+    using public.daily_skips b
+    where a.user_id = b.user_id
+      and a.date = b.date
+      and (a.skip_count < b.skip_count or (a.skip_count = b.skip_count and a.id < b.id));
+
+create unique index if not exists daily_skips_user_date_idx on public.daily_skips (user_id, date);
+
+-- Check and increment a daily counter ('plays' or 'skips') in one statement.
+-- p_limit -1 is unlimited (still counted). Returns the count after the call
+-- and whether a unit was consumed; at the limit nothing is changed.
+create or replace function public.consume_quota(
+    p_user_id uuid,
+    p_kind text,
+    p_limit integer,
+    p_day date
+) returns table (used integer, consumed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_used integer;
+begin
+    if p_kind = 'plays' then
+        insert into public.user_subscriptions (user_id, plan_id, daily_usage, last_reset_date)
+        values (p_user_id, 'free', 0, p_day)
+        on conflict (user_id) do nothing;
+
+        -- A counter from an earlier day starts again from zero
+        update public.user_subscriptions s
+            set daily_usage = (case when s.last_reset_date = p_day then s.daily_usage else 0 end) + 1,
+                last_reset_date = p_day
+            where s.user_id = p_user_id
+              and (p_limit < 0 or (case when s.last_reset_date = p_day then s.daily_usage else 0 end) < p_limit)
+            returning s.daily_usage into v_used;
+
+        if found then
+            return query select v_used, true;
+            return;
+        end if;
+
+        select case when s.last_reset_date = p_day then s.daily_usage else 0 end
+            into v_used
+            from public.user_subscriptions s
+            where s.user_id = p_user_id;
+    elsif p_kind = 'skips' then
+        if p_limit <> 0 then
+            insert into public.daily_skips as d (user_id, date, skip_count)
+            values (p_user_id, p_day, 1)
+            on conflict (user_id, date) do update
+                set skip_count = d.skip_count + 1
+                where p_limit < 0 or d.skip_count < p_limit
+            returning d.skip_count into v_used;
+
+            if found then
+                return query select v_used, true;
+                return;
+            end if;
+        end if;
+
+        select d.skip_count
+            into v_used
+            from public.daily_skips d
+            where d.user_id = p_user_id and d.date = p_day;
+    else
+        raise exception 'UNKNOWN_QUOTA_KIND';
+    end if;
+
+    return query select coalesce(v_used, 0), false;
+end;
+$$;
+
+-- Only the server (service role) may call this; it trusts p_user_id and p_limit
+revoke execute on function public.consume_quota(uuid, text, integer, date) from public, anon, authenticated;
+grant execute on function public.consume_quota(uuid, text, integer, date) to service_role;
@@ -0,0 +1,9 @@
+-- Daily play and skip quotas reset at midnight in the user's timezone
+alter table public.user_profiles
+    add column if not exists timezone text not null default 'Asia/Jakarta';
+
+-- A timezone change waits until the current day has ended in both the old
+-- and the new timezone, so switching timezones cannot start a fresh day early
+alter table public.user_profiles
+    add column if not exists pending_timezone text,
+    add column if not exists timezone_effective_at timestamptz;
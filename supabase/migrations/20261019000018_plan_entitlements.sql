@@ -0,0 +1,101 @@
+-- Plan capabilities beyond plays and skips; null falls back to the defaults
+-- in lib/entitlements.ts and -1 is unlimited
+alter table public.plans
+    add column if not exists ai_generation_limit integer check (ai_generation_limit >= -1),
+    add column if not exists lyrics_enabled boolean,
+    add column if not exists playlist_limit integer check (playlist_limit >= -1),
+    add column if not exists audio_quality text check (audio_quality in ('normal', 'high', 'lossless'));
+
+-- Daily counters for quotas that have no column of their own (AI generations)
+create table if not exists public.daily_counters (
+    user_id uuid not null,
+    date date not null,
+    kind text not null,
+    count integer not null default 0,
+    primary key (user_id, date, kind)
+);
+
+alter table public.daily_counters enable row level security;
+
+-- Same as before, plus any other kind counted in daily_counters
+create or replace function public.consume_quota(
+    p_user_id uuid,
+    p_kind text,
+    p_limit integer,
+    p_day date
+) returns table (used integer, consumed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_used integer;
+begin
+    if p_kind = 'plays' then
+        insert into public.user_subscriptions (user_id, plan_id, daily_usage, last_reset_date)
+        values (p_user_id, 'free', 0, p_day)
+        on conflict (user_id) do nothing;
+
+        -- A counter from an earlier day starts again from zero
+        update public.user_subscriptions s
+            set daily_usage = (case when s.last_reset_date = p_day then s.daily_usage else 0 end) + 1,
+                last_reset_date = p_day
+            where s.user_id = p_user_id
+              and (p_limit < 0 or (case when s.last_reset_date = p_day then s.daily_usage else 0 end) < p_limit)
+            returning s.daily_usage into v_used;
+
+        if found then
+            return query select v_used, true;
+            return;
+        end if;
+
+        select case when s.last_reset_date = p_day then s.daily_usage else 0 end
+            into v_used
+            from public.user_subscriptions s
+            where s.user_id = p_user_id;
+    elsif p_kind = 'skips' then
+        if p_limit <> 0 then
+            insert into public.daily_skips as d (user_id, date, skip_count)
+            values (p_user_id, p_day, 1)
+            on conflict (user_id, date) do update
+                set skip_count = d.skip_count + 1
+                where p_limit < 0 or d.skip_count < p_limit
+            returning d.skip_count into v_used;
+
+            if found then
+                return query select v_used, true;
+                return;
+            end if;
+        end if;
+
+        select d.skip_count
+            into v_used
+            from public.daily_skips d
+            where d.user_id = p_user_id and d.date = p_day;
+    else
+        if p_limit <> 0 then
+            insert into public.daily_counters as c (user_id, date, kind, count)
+            values (p_user_id, p_day, p_kind, 1)
+            on conflict (user_id, date, kind) do update
+                set count = c.count + 1
+                where p_limit < 0 or c.count < p_limit
+            returning c.count into v_used;
+
+            if found then
+                return query select v_used, true;
+                return;
+            end if;
+        end if;
+
+        select c.count
+            into v_used
+            from public.daily_counters c
+            where c.user_id = p_user_id and c.date = p_day and c.kind = p_kind;
+    end if;
+
+    return query select coalesce(v_used, 0), false;
+end;
+$$;
+
+revoke execute on function public.consume_quota(uuid, text, integer, date) from public, anon, authenticated;
+grant execute on function public.consume_quota(uuid, text, integer, date) to service_role;
@@ -0,0 +1,114 @@
+-- Ledger of every counted play, skip and AI generation. The daily counters
+-- are derived from it (user_subscriptions.daily_usage and daily_skips are
+-- kept in step for existing readers).
+create table if not exists public.usage_events (
+    id bigint generated always as identity primary key,
+    user_id uuid not null,
+    kind text not null,
+    day date not null, -- the user's local day the event counts towards
+    track_id text,
+    client text,
+    plan_id text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_kind_day_idx on public.usage_events (user_id, kind, day);
+create index if not exists usage_events_user_created_at_idx on public.usage_events (user_id, created_at desc);
+
+alter table public.usage_events enable row level security;
+
+-- Carry today's counts over so nobody gets their quota back on deploy
+insert into public.usage_events (user_id, kind, day, client, plan_id)
+select s.user_id, 'plays', s.last_reset_date, 'backfill', s.plan_id
+    from public.user_subscriptions s, generate_series(1, s.daily_usage)
+    where s.last_reset_date >= current_date - 1 and s.daily_usage > 0;
+
+insert into public.usage_events (user_id, kind, day, client)
+select d.user_id, 'skips', d.date, 'backfill'
+    from public.daily_skips d, generate_series(1, d.skip_count)
+    where d.date >= current_date - 1 and d.skip_count > 0;
+
+insert into public.usage_events (user_id, kind, day, client)
+select c.user_id, c.kind, c.date, 'backfill'
+    from public.daily_counters c, generate_series(1, c.count)
+    where c.date >= current_date - 1 and c.count > 0;
+
+drop function if exists public.consume_quota(uuid, text, integer, date);
+
+-- Count one unit of a daily quota if the limit allows it (p_limit -1 is
+-- unlimited, still counted). The count is taken from the ledger under a
+-- per-user lock, so parallel calls cannot both take the last unit.
+create or replace function public.consume_quota(
+    p_user_id uuid,
+    p_kind text,
+    p_limit integer,
+    p_day date,
+    p_track_id text default null,
+    p_client text default null,
+    p_plan_id text default null
+) returns table (used integer, consumed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_used integer;
+begin
+    perform pg_advisory_xact_lock(hashtext('consume_quota:' || p_user_id::text || ':' || p_kind));
+
+    select count(*) into v_used
+        from public.usage_events e
+        where e.user_id = p_user_id and e.kind = p_kind and e.day = p_day;
+
+    if p_limit >= 0 and v_used >= p_limit then
+        return query select v_used, false;
+        return;
+    end if;
+
+    insert into public.usage_events (user_id, kind, day, track_id, client, plan_id)
+    values (p_user_id, p_kind, p_day, p_track_id, p_client, p_plan_id);
+    v_used := v_used + 1;
+
+    -- Keep the old counters in step
+    if p_kind = 'plays' then
+        insert into public.user_subscriptions (user_id, plan_id, daily_usage, last_reset_date)
+        values (p_user_id, 'free', v_used, p_day)
+        on conflict (user_id) do update
+            set daily_usage = excluded.daily_usage, last_reset_date = excluded.last_reset_date;
+    elsif p_kind = 'skips' then
+        insert into public.daily_skips (user_id, date, skip_count)
+        values (p_user_id, p_day, v_used)
+        on conflict (user_id, date) do update set skip_count = excluded.skip_count;
+    else
+        insert into public.daily_counters (user_id, date, kind, count)
+        values (p_user_id, p_day, p_kind, v_used)
+        on conflict (user_id, date, kind) do update set count = excluded.count;
+    end if;
+
+    return query select v_used, true;
+end;
+$$;
+
+revoke execute on function public.consume_quota(uuid, text, integer, date, text, text, text) from public, anon, authenticated;
+grant execute on function public.consume_quota(uuid, text, integer, date, text, text, text) to service_role;
+
+-- Counted units per local day and kind since p_from
+create or replace function public.usage_history(
+    p_user_id uuid,
+    p_from date
+) returns table (day date, kind text, count integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select e.day, e.kind, count(*)::integer
+        from public.usage_events e
+        where e.user_id = p_user_id and e.day >= p_from
+        group by e.day, e.kind
+        order by e.day desc;
+$$;
+
+-- Only the server (service role) may read usage for a given p_user_id
+revoke execute on function public.usage_history(uuid, date) from public, anon, authenticated;
+grant execute on function public.usage_history(uuid, date) to service_role;
@@ -0,0 +1,63 @@
+-- Plays counted through /api/play/authorize record the YouTube video the
+-- play grant was issued for, and consume_quota returns the ledger entry so
+-- the grant can point at the play it counted.
+alter table public.usage_events add column if not exists video_id text;
+
+drop function if exists public.consume_quota(uuid, text, integer, date, text, text, text);
+
+create or replace function public.consume_quota(
+    p_user_id uuid,
+    p_kind text,
+    p_limit integer,
+    p_day date,
+    p_track_id text default null,
+    p_client text default null,
+    p_plan_id text default null,
+    p_video_id text default null
+) returns table (used integer, consumed boolean, event_id bigint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_used integer;
+    v_event_id bigint;
+begin
+    perform pg_advisory_xact_lock(hashtext('consume_quota:' || p_user_id::text || ':' || p_kind));
+
+    select count(*) into v_used
+        from public.usage_events e
+        where e.user_id = p_user_id and e.kind = p_kind and e.day = p_day;
+
+    if p_limit >= 0 and v_used >= p_limit then
+        return query select v_used, false, null::bigint;
+        return;
+    end if;
+
+    insert into public.usage_events (user_id, kind, day, track_id, client, plan_id, video_id)
+    values (p_user_id, p_kind, p_day, p_track_id, p_client, p_plan_id, p_video_id)
+    returning id into v_event_id;
+    v_used := v_used + 1;
+
+    -- Keep the old counters in step
+    if p_kind = 'plays' then
+        insert into public.user_subscriptions (user_id, plan_id, daily_usage, last_reset_date)
+        values (p_user_id, 'free', v_used, p_day)
+        on conflict (user_id) do update
+            set daily_usage = excluded.daily_usage, last_reset_date = excluded.last_reset_date;
+    elsif p_kind = 'skips' then
+        insert into public.daily_skips (user_id, date, skip_count)
+        values (p_user_id, p_day, v_used)
+        on conflict (user_id, date) do update set skip_count = excluded.skip_count;
+    else
+        insert into public.daily_counters (user_id, date, kind, count)
+        values (p_user_id, p_day, p_kind, v_used)
+        on conflict (user_id, date, kind) do update set count = excluded.count;
+    end if;
+
+    return query select v_used, true, v_event_id;
+end;
+$$;
+
+revoke execute on function public.consume_quota(uuid, text, integer, date, text, text, text, text) from public, anon, authenticated;
+grant execute on function public.consume_quota(uuid, text, integer, date, text, text, text, text) to service_role;
@@ -0,0 +1,97 @@
+-- Bonus play credits. Each grant (from an admin, a referral or a promotion)
+-- is a ledger row with its own expiry; plays beyond the daily allowance draw
+-- from the grant that expires first.
+create table if not exists public.play_credit_grants (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    source text not null check (source in ('admin', 'referral', 'promo')),
+    amount integer not null check (amount > 0),
+    remaining integer not null check (remaining >= 0),
+    reason text,
+    granted_by text,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists play_credit_grants_user_expires_idx on public.play_credit_grants (user_id, expires_at);
+
+alter table public.play_credit_grants enable row level security;
+
+-- Plays paid for with a credit point at the grant they drew from
+alter table public.usage_events add column if not exists credit_grant_id uuid references public.play_credit_grants (id) on delete set null;
+
+drop function if exists public.consume_quota(uuid, text, integer, date, text, text, text, text);
+
+-- As before, but with p_use_credits a unit past the limit is taken from the
+-- user's credit grant that expires first, if any is left.
+create or replace function public.consume_quota(
+    p_user_id uuid,
+    p_kind text,
+    p_limit integer,
+    p_day date,
+    p_track_id text default null,
+    p_client text default null,
+    p_plan_id text default null,
+    p_video_id text default null,
+    p_use_credits boolean default false
+) returns table (used integer, consumed boolean, event_id bigint, credit_grant_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_used integer;
+    v_event_id bigint;
+    v_grant_id uuid;
+begin
+    perform pg_advisory_xact_lock(hashtext('consume_quota:' || p_user_id::text || ':' || p_kind));
+
+    select count(*) into v_used
+        from public.usage_events e
+        where e.user_id = p_user_id and e.kind = p_kind and e.day = p_day;
+
+    if p_limit >= 0 and v_used >= p_limit then
+        if p_use_credits then
+            select g.id into v_grant_id
+                from public.play_credit_grants g
+                where g.user_id = p_user_id and g.remaining > 0 and g.expires_at > now()
+                order by g.expires_at, g.created_at
+                limit 1
+                for update;
+        end if;
+
+        if v_grant_id is null then
+            return query select v_used, false, null::bigint, null::uuid;
+            return;
+        end if;
+
+        update public.play_credit_grants set remaining = remaining - 1 where id = v_grant_id;
+    end if;
+
+    insert into public.usage_events (user_id, kind, day, track_id, client, plan_id, video_id, credit_grant_id)
+    values (p_user_id, p_kind, p_day, p_track_id, p_client, p_plan_id, p_video_id, v_grant_id)
+    returning id into v_event_id;
+    v_used := v_used + 1;
+
+    -- Keep the old counters in step
+    if p_kind = 'plays' then
+        insert into public.user_subscriptions (user_id, plan_id, daily_usage, last_reset_date)
+        values (p_user_id, 'free', v_used, p_day)
+        on conflict (user_id) do update
+            set daily_usage = excluded.daily_usage, last_reset_date = excluded.last_reset_date;
+    elsif p_kind = 'skips' then
+        insert into public.daily_skips (user_id, date, skip_count)
+        values (p_user_id, p_day, v_used)
+        on conflict (user_id, date) do update set skip_count = excluded.skip_count;
+    else
+        insert into public.daily_counters (user_id, date, kind, count)
+        values (p_user_id, p_day, p_kind, v_used)
+        on conflict (user_id, date, kind) do update set count = excluded.count;
+    end if;
+
+    return query select v_used, true, v_event_id, v_grant_id;
+end;
+$$;
+
+revoke execute on function public.consume_quota(uuid, text, integer, date, text, text, text, text, boolean) from public, anon, authenticated;
+grant execute on function public.consume_quota(uuid, text, integer, date, text, text, text, text, boolean) to service_role;
@@ -0,0 +1,58 @@
+-- Referral program. Every user gets one code; a new user is attributed to a
+-- referrer once, right after signing up, and the referrer is rewarded when
+-- that user's first paid transaction succeeds.
+create table if not exists public.referral_codes (
+    user_id uuid primary key,
+    code text not null unique check (code = upper(code)),
+    created_at timestamptz not null default now()
+);
+
+alter table public.referral_codes enable row level security;
+
+create table if not exists public.referrals (
+    id uuid primary key default gen_random_uuid(),
+    referrer_id uuid not null,
+    referred_id uuid not null unique,
+    code text not null,
+    -- pending until the first paid transaction; rewarded or rejected after,
+    -- revoked when that transaction is refunded
+    status text not null default 'pending' check (status in ('pending', 'rewarded', 'rejected', 'revoked')),
+    -- Email identity (see lib/email-identity.ts) of the referred user
+    referred_identity text,
+    transaction_id text references public.transactions (id) on delete set null,
+    reward_type text check (reward_type in ('plays', 'premium_days', 'voucher')),
+    reward_value integer,
+    reward_ref text, -- credit grant id or voucher code
+    reject_reason text,
+    created_at timestamptz not null default now(),
+    converted_at timestamptz
+);
+
+create index if not exists referrals_referrer_idx on public.referrals (referrer_id, created_at desc);
+
+-- An email identity earns its referrer at most one reward, and one whose
+-- reward was revoked after a refund cannot earn another
+create unique index if not exists referrals_rewarded_identity_idx
+    on public.referrals (referred_identity) where status in ('rewarded', 'revoked');
+
+alter table public.referrals enable row level security;
+
+-- What a referrer gets, editable by admins (single row 'main')
+create table if not exists public.referral_settings (
+    id text primary key default 'main',
+    is_active boolean not null default true,
+    reward_type text not null default 'plays' check (reward_type in ('plays', 'premium_days', 'voucher')),
+    -- Bonus plays, premium days or the voucher's discount in percent
+    reward_value integer not null default 50 check (reward_value > 0),
+    -- Plan given for premium_days rewards
+    reward_plan_id text references public.plans (id),
+    -- How long bonus plays and vouchers stay valid
+    reward_valid_days integer not null default 30 check (reward_valid_days > 0),
+    -- How long after signing up a user can still enter a referral code
+    attribution_window_days integer not null default 7 check (attribution_window_days > 0),
+    updated_at timestamptz not null default now()
+);
+
+insert into public.referral_settings (id) values ('main') on conflict (id) do nothing;
+
+alter table public.referral_settings enable row level security;
@@ -0,0 +1,19 @@
+-- Role-based admin access. Every admin has a role (owner, admin, support or
+-- finance) and admin routes check the role's permissions (lib/admin-roles.ts)
+-- instead of a shared admin password.
+create table if not exists public.admin_users (
+    id uuid primary key default gen_random_uuid(),
+    email text not null unique,
+    created_by text,
+    created_at timestamptz not null default now()
+);
+
+alter table public.admin_users enable row level security;
+
+-- Existing admins could do everything, including managing other admins, so
+-- they become owners; admins added from now on default to 'admin'
+alter table public.admin_users
+    add column if not exists role text not null default 'owner'
+    check (role in ('owner', 'admin', 'support', 'finance'));
+
+alter table public.admin_users alter column role set default 'admin';